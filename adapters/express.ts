@@ -0,0 +1,67 @@
+import type { HTTPStatus } from "../http-status";
+import { toHTTPError } from "../http-error";
+
+/**
+ * The subset of Express' `Response` used by this adapter.
+ */
+export type ExpressResponse = {
+    statusMessage: string;
+    readonly headersSent: boolean;
+    status(code: number): ExpressResponse;
+    set(field: string, value: string): ExpressResponse;
+    type(type: string): ExpressResponse;
+    send(body?: unknown): ExpressResponse;
+};
+
+/**
+ * Applies a status constant to an Express `Response`, setting both its status code and its
+ * status message.
+ *
+ * @param response - The Express response.
+ * @param status - Any `HTTPStatus`.
+ *
+ * @example
+ * ```
+ * applyStatus(res, CREATED).json(article);
+ * ```
+ */
+export const applyStatus = <Response extends ExpressResponse>(
+    response: Response,
+    status: HTTPStatus,
+): Response => {
+    response.status(status.status);
+    response.statusMessage = status.statusText;
+
+    return response;
+};
+
+/**
+ * Creates an Express error-handling middleware answering thrown errors with the matching
+ * status, mapped with `toHTTPError`. Errors raised after the headers were sent are passed
+ * on to the default Express handler.
+ *
+ * @example
+ * ```
+ * app.use(errorHandler());
+ * ```
+ */
+export const errorHandler =
+    () =>
+    (
+        error: unknown,
+        _request: unknown,
+        response: ExpressResponse,
+        next: (error?: unknown) => void,
+    ): void => {
+        if (response.headersSent) {
+            next(error);
+            return;
+        }
+
+        const httpError = toHTTPError(error);
+        applyStatus(response, httpError);
+        httpError.headers.forEach((value, name) =>
+            response.set(name, value),
+        );
+        response.type("text/plain").send(httpError.message);
+    };
@@ -0,0 +1,55 @@
+import type { HTTPStatus } from "../http-status";
+import { toHTTPError } from "../http-error";
+
+/**
+ * The subset of Fastify's `FastifyReply` used by this adapter.
+ */
+export type FastifyReply = {
+    readonly raw: { statusMessage: string };
+    code(statusCode: number): FastifyReply;
+    header(name: string, value: string): FastifyReply;
+    type(contentType: string): FastifyReply;
+    send(payload?: unknown): FastifyReply;
+};
+
+/**
+ * Applies a status constant to a Fastify reply, setting both its status code and the
+ * status message of the underlying Node response.
+ *
+ * @param reply - The Fastify reply.
+ * @param status - Any `HTTPStatus`.
+ *
+ * @example
+ * ```
+ * return applyStatus(reply, CREATED).send(article);
+ * ```
+ */
+export const applyStatus = <Reply extends FastifyReply>(
+    reply: Reply,
+    status: HTTPStatus,
+): Reply => {
+    reply.code(status.status);
+    reply.raw.statusMessage = status.statusText;
+
+    return reply;
+};
+
+/**
+ * Creates a Fastify error handler answering thrown errors with the matching status, mapped
+ * with `toHTTPError`. Fastify's own errors expose a `statusCode` and keep their status.
+ *
+ * @example
+ * ```
+ * fastify.setErrorHandler(errorHandler());
+ * ```
+ */
+export const errorHandler =
+    () =>
+    (error: unknown, _request: unknown, reply: FastifyReply): void => {
+        const httpError = toHTTPError(error);
+        applyStatus(reply, httpError);
+        httpError.headers.forEach((value, name) =>
+            reply.header(name, value),
+        );
+        reply.type("text/plain; charset=utf-8").send(httpError.message);
+    };
@@ -0,0 +1,46 @@
+import type { HTTPStatus } from "../http-status";
+import { toHTTPError } from "../http-error";
+
+/**
+ * The subset of Hono's `Context` used by this adapter.
+ */
+export type HonoContext = {
+    status(status: number): void;
+};
+
+/**
+ * Applies a status constant to a Hono context. Hono builds Fetch `Response` objects, whose
+ * status text is set by the runtime; to send the exact status text of the constant, spread
+ * the constant into `new Response()` instead.
+ *
+ * @param context - The Hono context.
+ * @param status - Any `HTTPStatus`.
+ *
+ * @example
+ * ```
+ * applyStatus(c, CREATED);
+ * return c.json(article);
+ * ```
+ */
+export const applyStatus = <Context extends HonoContext>(
+    context: Context,
+    status: HTTPStatus,
+): Context => {
+    context.status(status.status);
+
+    return context;
+};
+
+/**
+ * Creates a Hono error handler answering thrown errors with the matching status, mapped
+ * with `toHTTPError`.
+ *
+ * @example
+ * ```
+ * app.onError(errorHandler());
+ * ```
+ */
+export const errorHandler =
+    () =>
+    (error: unknown, _context: unknown): Response =>
+        toHTTPError(error).toResponse();
@@ -0,0 +1,75 @@
+import type { HTTPStatus } from "../http-status";
+import { toHTTPError } from "../http-error";
+
+/**
+ * The subset of Koa's `Context` used by this adapter.
+ */
+export type KoaContext = {
+    status: number;
+    message: string;
+    body: unknown;
+    type: string;
+    readonly headerSent: boolean;
+    readonly app: {
+        emit(event: "error", error: unknown, context: KoaContext): boolean;
+    };
+    set(field: string, value: string): void;
+};
+
+/**
+ * Applies a status constant to a Koa context, setting both `ctx.status` and `ctx.message`.
+ *
+ * @param context - The Koa context.
+ * @param status - Any `HTTPStatus`.
+ *
+ * @example
+ * ```
+ * applyStatus(ctx, CREATED).body = article;
+ * ```
+ */
+export const applyStatus = <Context extends KoaContext>(
+    context: Context,
+    status: HTTPStatus,
+): Context => {
+    context.status = status.status;
+    context.message = status.statusText;
+
+    return context;
+};
+
+/**
+ * Creates a Koa middleware answering errors thrown by downstream middlewares with the
+ * matching status, mapped with `toHTTPError`. Register it first.
+ *
+ * Errors are still emitted on the application, so that `app.on("error")` listeners and
+ * Koa's default logging keep seeing them. Errors raised after the headers were sent are
+ * rethrown to Koa, since the response cannot change anymore.
+ *
+ * @example
+ * ```
+ * app.use(errorHandler());
+ * ```
+ */
+export const errorHandler =
+    () =>
+    async (
+        context: KoaContext,
+        next: () => Promise<unknown>,
+    ): Promise<void> => {
+        try {
+            await next();
+        } catch (error) {
+            if (context.headerSent) {
+                throw error;
+            }
+
+            context.app.emit("error", error, context);
+            const httpError = toHTTPError(error);
+            applyStatus(context, httpError);
+            httpError.headers.forEach((value, name) =>
+                context.set(name, value),
+            );
+            context.type = "text/plain";
+            context.body = httpError.message;
+        }
+    };
@@ -0,0 +1,85 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { HTTPStatus } from "../http-status";
+import { toHTTPError } from "../http-error";
+
+/**
+ * The subset of Node's `http.ServerResponse` used by this adapter.
+ */
+export type NodeResponse = Pick<
+    ServerResponse,
+    "statusCode" | "statusMessage" | "headersSent" | "setHeader" | "end"
+> & {
+    readonly destroy?: (error?: Error) => unknown;
+};
+
+/**
+ * Applies a status constant to a Node `http.ServerResponse`, setting both its
+ * `statusCode` and its `statusMessage`.
+ *
+ * @param response - The server response.
+ * @param status - Any `HTTPStatus`.
+ *
+ * @example
+ * ```
+ * applyStatus(res, CREATED).end();
+ * ```
+ */
+export const applyStatus = <Response extends NodeResponse>(
+    response: Response,
+    status: HTTPStatus,
+): Response => {
+    response.statusCode = status.status;
+    response.statusMessage = status.statusText;
+
+    return response;
+};
+
+/**
+ * Sends a thrown value as an error response, mapped to its status constant with
+ * `toHTTPError`. When the headers were already sent, the response cannot change anymore
+ * and is destroyed instead.
+ *
+ * @param response - The server response.
+ * @param error - Any thrown value.
+ */
+export const sendError = (response: NodeResponse, error: unknown): void => {
+    if (response.headersSent) {
+        response.destroy?.(error instanceof Error ? error : undefined);
+        return;
+    }
+
+    const httpError = toHTTPError(error);
+    applyStatus(response, httpError);
+    httpError.headers.forEach((value, name) =>
+        response.setHeader(name, value),
+    );
+    response.setHeader("Content-Type", "text/plain; charset=utf-8");
+    response.end(httpError.message);
+};
+
+/**
+ * Wraps a `node:http` request listener so that thrown or rejected errors are answered with
+ * the matching status. When the headers were already sent, the socket is destroyed instead.
+ *
+ * @param listener - The request listener, possibly asynchronous.
+ *
+ * @example
+ * ```
+ * http.createServer(
+ *     withErrorHandling(async (req, res) => {
+ *         throw new NotFoundError();
+ *     }),
+ * );
+ * ```
+ */
+export const withErrorHandling =
+    <Request extends IncomingMessage, Response extends NodeResponse>(
+        listener: (request: Request, response: Response) => unknown,
+    ) =>
+    async (request: Request, response: Response): Promise<void> => {
+        try {
+            await listener(request, response);
+        } catch (error) {
+            sendError(response, error);
+        }
+    };
@@ -0,0 +1,374 @@
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { describe, type StatusDescription } from "./describe";
+import { lintHAR, toSARIF, type LintIssue } from "./lint";
+import { STATUS_METADATA, type StatusMetadata } from "./metadata";
+import {
+    fromName,
+    fromStatusText,
+    STATUS_BY_CODE,
+    type KnownHTTPStatus,
+} from "./registry";
+
+/**
+ * Looks up and explains status codes from the command line.
+ *
+ * ```
+ * http-status 421                              # explain a code, a constant name or a status text
+ * http-status search timeout                   # fuzzy search over names and texts
+ * http-status list --class 5xx --json          # list every status, optionally of one class
+ * http-status lint session.har --format sarif  # check recorded traffic against the policy
+ * ```
+ *
+ * Output formats are `table` (the default of `search` and `list`), `plain` (the default
+ * when explaining a status or linting) and `json`, plus `sarif` for `lint`. Exits with `1`
+ * when nothing matches or a policy error is found, and `2` on a usage error.
+ */
+
+const USAGE = `Usage:
+  http-status <code | NAME | "Status Text">   Explain a status
+  http-status search <query>                  Fuzzy search over names and texts
+  http-status list [--class 1xx..5xx]         List statuses
+  http-status lint <file.har>...              Check recorded traffic against the policy
+
+Options:
+  --format <table | plain | json | sarif>   Output format (sarif: lint only)
+  --json                                    Same as --format json
+  --plain                                   Same as --format plain
+  -h, --help                                Show this help
+`;
+
+/**
+ * The output streams of {@link run}.
+ */
+export type CLIStreams = {
+    readonly stdout: { readonly write: (chunk: string) => unknown };
+    readonly stderr: { readonly write: (chunk: string) => unknown };
+};
+
+type Format = "table" | "plain" | "json";
+
+type Entry = StatusDescription & {
+    readonly metadata: StatusMetadata;
+};
+
+const ENTRIES: readonly Entry[] = (
+    Object.values(STATUS_BY_CODE) as KnownHTTPStatus[]
+).map((status) => ({
+    ...describe(status)!,
+    metadata: STATUS_METADATA[status.status],
+}));
+
+const flagsOf = ({ metadata }: Entry): string[] => [
+    ...(metadata.deprecated ? ["deprecated"] : []),
+    ...(metadata.experimental ? ["experimental"] : []),
+    ...(metadata.unused ? ["unused"] : []),
+    ...(metadata.extension ? [metadata.extension] : []),
+];
+
+const words = (value: string) =>
+    value
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean);
+
+/**
+ * Levenshtein distance between two words, used to tolerate typos such as `timout`.
+ */
+const distance = (a: string, b: string): number => {
+    let previous = Array.from(
+        { length: b.length + 1 },
+        (_, index) => index,
+    );
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+            );
+        }
+        previous = current;
+    }
+
+    return previous[b.length];
+};
+
+/**
+ * Scores how well an entry matches a query: `3` for its exact code, `2` when the query
+ * appears in its name or text, `1` when every query word loosely matches one of its words,
+ * and `0` otherwise.
+ */
+const score = (query: string, entry: Entry): number => {
+    const terms = words(query);
+    const haystack = words(
+        `${entry.status} ${entry.name} ${entry.statusText}`,
+    );
+    if (terms.length === 0) {
+        return 0;
+    }
+
+    if (terms.join(" ") === String(entry.status)) {
+        return 3;
+    }
+
+    if (haystack.join(" ").includes(terms.join(" "))) {
+        return 2;
+    }
+
+    return terms.every((term) =>
+        haystack.some(
+            (word) =>
+                word.startsWith(term) ||
+                (term.length > 3 &&
+                    distance(term, word) <= (term.length > 6 ? 2 : 1)),
+        ),
+    )
+        ? 1
+        : 0;
+};
+
+const search = (query: string): Entry[] =>
+    ENTRIES.map((entry) => ({ entry, score: score(query, entry) }))
+        .filter((match) => match.score > 0)
+        .sort(
+            (a, b) => b.score - a.score || a.entry.status - b.entry.status,
+        )
+        .map(({ entry }) => entry);
+
+const lookup = (query: string): Entry | undefined => {
+    const status = /^\d{3}$/.test(query)
+        ? STATUS_BY_CODE[Number(query) as KnownHTTPStatus["status"]]
+        : (fromName(
+              query
+                  .trim()
+                  .toUpperCase()
+                  .replace(/[\s-]+/g, "_"),
+          ) ?? fromStatusText(query.trim()));
+
+    return ENTRIES.find((entry) => entry.status === status?.status);
+};
+
+const toJSON = (entry: Entry) => ({
+    name: entry.name,
+    status: entry.status,
+    statusText: entry.statusText,
+    summary: entry.summary,
+    mdn: entry.mdn,
+    spec: entry.metadata.spec,
+    flags: flagsOf(entry),
+});
+
+const formatPlain = (entry: Entry): string => {
+    const flags = flagsOf(entry);
+
+    return [
+        `${entry.status} ${entry.statusText} (${entry.name})`,
+        ...(flags.length > 0 ? [`Flags: ${flags.join(", ")}`] : []),
+        "",
+        entry.summary,
+        "",
+        `Spec: RFC ${entry.metadata.spec.rfc} §${entry.metadata.spec.section} ${entry.metadata.spec.url}`,
+        `MDN:  ${entry.mdn}`,
+    ].join("\n");
+};
+
+const formatTable = (entries: readonly Entry[]): string => {
+    const rows = [
+        ["CODE", "NAME", "TEXT", "FLAGS"],
+        ...entries.map((entry) => [
+            String(entry.status),
+            entry.name,
+            entry.statusText,
+            flagsOf(entry).join(", "),
+        ]),
+    ];
+    const widths = rows[0].map((_, column) =>
+        Math.max(...rows.map((row) => row[column].length)),
+    );
+
+    return rows
+        .map((row) =>
+            row
+                .map((cell, column) => cell.padEnd(widths[column]))
+                .join("  ")
+                .trimEnd(),
+        )
+        .join("\n");
+};
+
+const print = (
+    entries: readonly Entry[],
+    format: Format,
+    single = false,
+): string => {
+    switch (format) {
+        case "json":
+            return JSON.stringify(
+                single ? toJSON(entries[0]) : entries.map(toJSON),
+                null,
+                2,
+            );
+        case "plain":
+            return entries.map(formatPlain).join("\n\n");
+        case "table":
+            return formatTable(entries);
+    }
+};
+
+const formatIssue = (issue: LintIssue): string =>
+    `${issue.file}${issue.pointer === undefined ? "" : `#${issue.pointer}`}: ${issue.severity} ${issue.message} (${issue.rule})`;
+
+const lint = (
+    files: readonly string[],
+    format: Format | "sarif",
+    io: CLIStreams,
+): number => {
+    if (files.length === 0 || format === "table") {
+        io.stderr.write(
+            files.length === 0
+                ? `Missing HAR file\n\n${USAGE}`
+                : `Unsupported format for lint: ${format}\n`,
+        );
+        return 2;
+    }
+
+    let issues: LintIssue[];
+    try {
+        issues = files.flatMap((file) =>
+            lintHAR(JSON.parse(readFileSync(file, "utf8")), { file }),
+        );
+    } catch (error) {
+        io.stderr.write(`${(error as Error).message}\n`);
+        return 2;
+    }
+
+    const output =
+        format === "json"
+            ? JSON.stringify(issues, null, 2)
+            : format === "sarif"
+              ? JSON.stringify(toSARIF(issues), null, 2)
+              : issues.map(formatIssue).join("\n");
+    if (output !== "") {
+        io.stdout.write(`${output}\n`);
+    }
+
+    return issues.some((issue) => issue.severity === "error") ? 1 : 0;
+};
+
+/**
+ * Runs the command line tool.
+ *
+ * @param args - The arguments, without the `node` and script paths.
+ * @param io - The streams to write to. Defaults to the process streams.
+ *
+ * @returns The exit code.
+ *
+ * @example
+ * ```
+ * process.exitCode = run(process.argv.slice(2));
+ * ```
+ */
+export const run = (
+    args: readonly string[],
+    io: CLIStreams = process,
+): number => {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: [...args],
+            allowPositionals: true,
+            options: {
+                class: { type: "string" },
+                format: { type: "string" },
+                json: { type: "boolean" },
+                plain: { type: "boolean" },
+                help: { type: "boolean", short: "h" },
+            },
+        });
+    } catch (error) {
+        io.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+        return 2;
+    }
+
+    const { values, positionals } = parsed;
+    const [command, ...rest] = positionals;
+    if (values.help || command === undefined) {
+        (values.help ? io.stdout : io.stderr).write(USAGE);
+        return values.help ? 0 : 2;
+    }
+
+    const format = values.json
+        ? "json"
+        : values.plain
+          ? "plain"
+          : values.format;
+    if (
+        (format !== undefined &&
+            !["table", "plain", "json", "sarif"].includes(format)) ||
+        (format === "sarif" && command !== "lint")
+    ) {
+        io.stderr.write(`Unknown format: ${format}\n\n${USAGE}`);
+        return 2;
+    }
+
+    if (command === "lint") {
+        return lint(rest, (format as Format | "sarif") ?? "plain", io);
+    }
+
+    let entries: Entry[];
+    switch (command) {
+        case "list": {
+            const digit = values.class?.match(/^([1-5])xx$/i)?.[1];
+            if (values.class !== undefined && digit === undefined) {
+                io.stderr.write(
+                    `Unknown class: ${values.class} (expected 1xx to 5xx)\n`,
+                );
+                return 2;
+            }
+
+            entries = ENTRIES.filter(
+                (entry) =>
+                    digit === undefined ||
+                    String(entry.status).startsWith(digit),
+            );
+            break;
+        }
+        case "search":
+            entries = search(rest.join(" "));
+            break;
+        default: {
+            const query = positionals.join(" ");
+            const entry = lookup(query);
+            if (entry === undefined) {
+                const suggestions = search(query).slice(0, 5);
+                io.stderr.write(
+                    /^\d{3}$/.test(query)
+                        ? `${query} is not a standard status code.\n`
+                        : `No status named "${query}".\n`,
+                );
+                if (suggestions.length > 0) {
+                    io.stderr.write(
+                        `Did you mean:\n${formatTable(suggestions)}\n`,
+                    );
+                }
+
+                return 1;
+            }
+
+            io.stdout.write(
+                `${print([entry], (format as Format) ?? "plain", true)}\n`,
+            );
+            return 0;
+        }
+    }
+
+    if (entries.length === 0) {
+        io.stderr.write("No matching status.\n");
+        return 1;
+    }
+
+    io.stdout.write(`${print(entries, (format as Format) ?? "table")}\n`);
+    return 0;
+};
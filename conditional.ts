@@ -0,0 +1,365 @@
+import {
+    NOT_MODIFIED,
+    PRECONDITION_FAILED,
+    PRECONDITION_REQUIRED,
+} from "./http-status";
+
+/**
+ * The current state of the target resource, against which preconditions are evaluated.
+ *
+ * @property etag - The current entity tag, e.g. `'"abc"'` or `'W/"abc"'`.
+ * @property lastModified - The last modification date, as a `Date`, milliseconds since the
+ * epoch or an HTTP-date.
+ * @property exists - Whether the resource currently has a representation. Defaults to
+ * `true`; set to `false` when the request would create it.
+ */
+export type ResourceState = {
+    readonly etag?: string;
+    readonly lastModified?: Date | number | string;
+    readonly exists?: boolean;
+};
+
+/**
+ * The request fields read by {@link evaluatePreconditions}, such as a Fetch `Request`.
+ */
+export type ConditionalRequest = {
+    readonly method: string;
+    readonly headers: HeadersInit;
+};
+
+/**
+ * Options of {@link evaluatePreconditions}.
+ *
+ * @property requirePreconditions - Whether unsafe methods (e.g. `PUT`, `DELETE`) must carry
+ * `If-Match`, `If-None-Match` or `If-Unmodified-Since`, to prevent lost updates
+ * ([RFC 6585 §3](https://www.rfc-editor.org/rfc/rfc6585#section-3)). Defaults to `false`.
+ */
+export type PreconditionOptions = {
+    readonly requirePreconditions?: boolean;
+};
+
+/**
+ * Result of {@link evaluatePreconditions}: the status to answer with, or `"proceed"` to
+ * perform the method as if the request were unconditional.
+ */
+export type PreconditionResult =
+    | typeof NOT_MODIFIED
+    | typeof PRECONDITION_FAILED
+    | typeof PRECONDITION_REQUIRED
+    | "proceed";
+
+const SAFE_METHODS: ReadonlySet<string> = new Set<string>([
+    "GET",
+    "HEAD",
+    "OPTIONS",
+    "TRACE",
+]);
+
+const ENTITY_TAG = /^(W\/)?"([\x21\x23-\x7e\x80-\xff]*)"$/;
+
+/**
+ * Parses an entity tag into its weakness and opaque tag.
+ */
+const parseETag = (
+    value: string,
+): { readonly weak: boolean; readonly opaque: string } | undefined => {
+    const match = ENTITY_TAG.exec(value.trim());
+
+    return match === null
+        ? undefined
+        : { weak: match[1] !== undefined, opaque: match[2] };
+};
+
+/**
+ * Compares two entity tags
+ * ([RFC 9110 §8.8.3.2](https://httpwg.org/specs/rfc9110.html#entity.tag.comparison)).
+ *
+ * @param a - An entity tag, e.g. `'"abc"'` or `'W/"abc"'`.
+ * @param b - Another entity tag.
+ * @param comparison - `"strong"` matches only if neither tag is weak, `"weak"` ignores
+ * weakness.
+ *
+ * @returns `false` when either tag is malformed.
+ *
+ * @example
+ * ```
+ * compareETags('W/"1"', '"1"', "weak"); // true
+ * compareETags('W/"1"', '"1"', "strong"); // false
+ * ```
+ */
+export const compareETags = (
+    a: string,
+    b: string,
+    comparison: "strong" | "weak",
+): boolean => {
+    const left = parseETag(a);
+    const right = parseETag(b);
+    if (left === undefined || right === undefined) {
+        return false;
+    }
+
+    return (
+        left.opaque === right.opaque &&
+        (comparison === "weak" || (!left.weak && !right.weak))
+    );
+};
+
+/**
+ * Evaluates an `If-Match` or `If-None-Match` field value: `*` or a comma-separated list of
+ * entity tags.
+ */
+const matchesAny = (
+    field: string,
+    resource: ResourceState,
+    comparison: "strong" | "weak",
+): boolean => {
+    if (field.trim() === "*") {
+        return resource.exists ?? true;
+    }
+
+    const current = resource.etag;
+
+    return (
+        current !== undefined &&
+        (field.match(/(?:W\/)?"[^"]*"/g) ?? []).some((etag) =>
+            compareETags(etag, current, comparison),
+        )
+    );
+};
+
+const MONTHS = [
+    "Jan",
+    "Feb",
+    "Mar",
+    "Apr",
+    "May",
+    "Jun",
+    "Jul",
+    "Aug",
+    "Sep",
+    "Oct",
+    "Nov",
+    "Dec",
+];
+const DAY_NAME = "(?:Mon|Tue|Wed|Thu|Fri|Sat|Sun)";
+const MONTH = `(${MONTHS.join("|")})`;
+const TIME = "(\\d{2}):(\\d{2}):(\\d{2})";
+
+/**
+ * The three HTTP-date formats: the IMF-fixdate, e.g. `Sun, 06 Nov 1994 08:49:37 GMT`, and
+ * the obsolete RFC 850 and asctime formats, which recipients must still accept. `fields`
+ * lists the capture groups of the day, month, year, hours, minutes and seconds.
+ */
+const HTTP_DATE_FORMATS = [
+    {
+        pattern: new RegExp(
+            `^${DAY_NAME}, (\\d{2}) ${MONTH} (\\d{4}) ${TIME} GMT$`,
+        ),
+        fields: [1, 2, 3, 4, 5, 6],
+    },
+    {
+        pattern: new RegExp(
+            `^${DAY_NAME}[a-z]{3,6}, (\\d{2})-${MONTH}-(\\d{2}) ${TIME} GMT$`,
+        ),
+        fields: [1, 2, 3, 4, 5, 6],
+    },
+    {
+        pattern: new RegExp(
+            `^${DAY_NAME} ${MONTH} ( \\d|\\d{2}) ${TIME} (\\d{4})$`,
+        ),
+        fields: [2, 1, 6, 3, 4, 5],
+    },
+];
+
+/**
+ * Expands the two-digit year of an RFC 850 date: a year more than 50 years in the future is
+ * in the past century.
+ */
+const expandYear = (year: string): number => {
+    if (year.length === 4) {
+        return Number(year);
+    }
+
+    const now = new Date().getUTCFullYear();
+    const expanded = Math.floor(now / 100) * 100 + Number(year);
+
+    return expanded > now + 50 ? expanded - 100 : expanded;
+};
+
+/**
+ * Parses an HTTP-date ([RFC 9110 §5.6.7](https://httpwg.org/specs/rfc9110.html#http.date))
+ * into milliseconds since the epoch. Unlike `Date.parse`, it rejects any other format, such
+ * as `2015-10-21`, since a precondition with an invalid date must be ignored.
+ */
+const parseHTTPDate = (value: string): number | undefined => {
+    for (const { pattern, fields } of HTTP_DATE_FORMATS) {
+        const match = pattern.exec(value.trim());
+        if (match === null) {
+            continue;
+        }
+
+        const [day, month, year, hours, minutes, seconds] = fields.map(
+            (group) => match[group],
+        );
+        const time = Date.UTC(
+            expandYear(year),
+            MONTHS.indexOf(month),
+            Number(day),
+            Number(hours),
+            Number(minutes),
+            Number(seconds),
+        );
+
+        return new Date(time).getUTCDate() === Number(day) &&
+            Number(hours) < 24 &&
+            Number(minutes) < 60 &&
+            Number(seconds) <= 60
+            ? time
+            : undefined;
+    }
+
+    return undefined;
+};
+
+/**
+ * Converts a date to whole seconds since the epoch, the resolution of HTTP-dates. Strings
+ * must be HTTP-dates.
+ */
+const toSeconds = (
+    date: Date | number | string | null | undefined,
+): number | undefined => {
+    if (date === null || date === undefined) {
+        return undefined;
+    }
+
+    const time =
+        date instanceof Date
+            ? date.getTime()
+            : typeof date === "number"
+              ? date
+              : (parseHTTPDate(date) ?? NaN);
+
+    return Number.isNaN(time) ? undefined : Math.floor(time / 1000);
+};
+
+/**
+ * Evaluates the preconditions of a request in the order defined by
+ * [RFC 9110 §13.2.2](https://httpwg.org/specs/rfc9110.html#precedence):
+ *
+ * 1. `If-Match`, with strong comparison, or else `If-Unmodified-Since`: `412` when false.
+ * 2. `If-None-Match`, with weak comparison, or else `If-Modified-Since` for `GET` and `HEAD`:
+ *    `304` for `GET` and `HEAD` and `412` for other methods when false.
+ *
+ * `If-Range` only decides whether a `Range` header applies; see {@link evaluateIfRange}.
+ * Preconditions are meant to be evaluated after authentication and before the method is
+ * performed; answer with the returned status only when the method would otherwise succeed.
+ *
+ * @param request - The method and headers of the request, such as a Fetch `Request`.
+ * @param resource - The current entity tag, modification date and existence of the resource.
+ * @param options - Whether preconditions are required on unsafe methods.
+ *
+ * @returns `NOT_MODIFIED`, `PRECONDITION_FAILED`, `PRECONDITION_REQUIRED` or `"proceed"`.
+ *
+ * @example
+ * ```
+ * const result = evaluatePreconditions(request, { etag: article.etag }, {
+ *     requirePreconditions: true,
+ * });
+ * if (result !== "proceed") {
+ *     return new Response(null, { ...result, headers: { ETag: article.etag } });
+ * }
+ * ```
+ */
+export const evaluatePreconditions = (
+    request: ConditionalRequest,
+    resource: ResourceState,
+    options: PreconditionOptions = {},
+): PreconditionResult => {
+    const method = request.method.toUpperCase();
+    const headers = new Headers(request.headers);
+    const ifMatch = headers.get("If-Match");
+    const ifNoneMatch = headers.get("If-None-Match");
+    const ifUnmodifiedSince = headers.get("If-Unmodified-Since");
+    const ifModifiedSince = headers.get("If-Modified-Since");
+    const lastModified = toSeconds(resource.lastModified);
+
+    if (
+        options.requirePreconditions &&
+        !SAFE_METHODS.has(method) &&
+        ifMatch === null &&
+        ifNoneMatch === null &&
+        ifUnmodifiedSince === null
+    ) {
+        return PRECONDITION_REQUIRED;
+    }
+
+    if (ifMatch !== null) {
+        if (!matchesAny(ifMatch, resource, "strong")) {
+            return PRECONDITION_FAILED;
+        }
+    } else if (ifUnmodifiedSince !== null && lastModified !== undefined) {
+        const since = toSeconds(ifUnmodifiedSince);
+        if (since !== undefined && lastModified > since) {
+            return PRECONDITION_FAILED;
+        }
+    }
+
+    const isRead = method === "GET" || method === "HEAD";
+    if (ifNoneMatch !== null) {
+        if (matchesAny(ifNoneMatch, resource, "weak")) {
+            return isRead ? NOT_MODIFIED : PRECONDITION_FAILED;
+        }
+    } else if (
+        isRead &&
+        ifModifiedSince !== null &&
+        lastModified !== undefined
+    ) {
+        const since = toSeconds(ifModifiedSince);
+        if (since !== undefined && lastModified <= since) {
+            return NOT_MODIFIED;
+        }
+    }
+
+    return "proceed";
+};
+
+/**
+ * Evaluates the `If-Range` header of a `GET` request
+ * ([RFC 9110 §13.1.5](https://httpwg.org/specs/rfc9110.html#field.if-range)), the last
+ * step of the precondition evaluation.
+ *
+ * An entity tag matches only by strong comparison, and a date only when it equals the
+ * last modification date exactly. A weak entity tag never matches.
+ *
+ * @param headers - The request headers.
+ * @param resource - The current entity tag and modification date of the resource.
+ *
+ * @returns `true` when the `Range` header should be applied: either `If-Range` is absent
+ * or it matches. `false` when the full representation should be sent instead.
+ *
+ * @example
+ * ```
+ * const partial = request.headers.has("Range") && evaluateIfRange(request.headers, resource);
+ * ```
+ */
+export const evaluateIfRange = (
+    headers: HeadersInit,
+    resource: ResourceState,
+): boolean => {
+    const ifRange = new Headers(headers).get("If-Range")?.trim();
+    if (ifRange === undefined) {
+        return true;
+    }
+
+    if (ifRange.startsWith('"') || ifRange.startsWith("W/")) {
+        return (
+            resource.etag !== undefined &&
+            compareETags(ifRange, resource.etag, "strong")
+        );
+    }
+
+    const since = toSeconds(ifRange);
+    const lastModified = toSeconds(resource.lastModified);
+
+    return since !== undefined && since === lastModified;
+};
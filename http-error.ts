@@ -0,0 +1,578 @@
+import {
+    BAD_GATEWAY,
+    BAD_REQUEST,
+    CONFLICT,
+    CONTENT_TOO_LARGE,
+    EXPECTATION_FAILED,
+    FAILED_DEPENDENCY,
+    FORBIDDEN,
+    GATEWAY_TIMEOUT,
+    GONE,
+    HTTP_VERSION_NOT_SUPPORTED,
+    IM_A_TEAPOT,
+    INSUFFICIENT_STORAGE,
+    INTERNAL_SERVER_ERROR,
+    LENGTH_REQUIRED,
+    LOCKED,
+    LOOP_DETECTED,
+    METHOD_NOT_ALLOWED,
+    MISDIRECTED_REQUEST,
+    NETWORK_AUTHENTICATION_REQUIRED,
+    NOT_ACCEPTABLE,
+    NOT_EXTENDED,
+    NOT_FOUND,
+    NOT_IMPLEMENTED,
+    PAYMENT_REQUIRED,
+    PRECONDITION_FAILED,
+    PRECONDITION_REQUIRED,
+    PROXY_AUTHENTICATION_REQUIRED,
+    RANGE_NOT_SATISFIABLE,
+    REQUEST_HEADER_FIELDS_TOO_LARGE,
+    REQUEST_TIMEOUT,
+    SERVICE_UNAVAILABLE,
+    TOO_EARLY,
+    TOO_MANY_REQUESTS,
+    UNAUTHORIZED,
+    UNAVAILABLE_FOR_LEGAL_REASONS,
+    UNPROCESSABLE_CONTENT,
+    UNSUPPORTED_MEDIA_TYPE,
+    UPGRADE_REQUIRED,
+    URI_TOO_LONG,
+    VARIANT_ALSO_NEGOTIATES,
+    type HTTPStatus,
+} from "./http-status";
+import type { StatusByCode } from "./registry";
+import {
+    isServerError,
+    type ErrorCode,
+    type ErrorStatus,
+} from "./status-class";
+
+/**
+ * Options accepted by {@link HTTPError} and its subclasses.
+ *
+ * @property cause - The underlying error, exposed as the standard `Error.cause`.
+ * @property headers - Headers to send along with the error response (e.g. `Retry-After`).
+ */
+export type HTTPErrorOptions = {
+    readonly cause?: unknown;
+    readonly headers?: HeadersInit;
+};
+
+/**
+ * Base class of every HTTP error. It carries an `HTTPStatus`, so the status code and text
+ * always come from the constants of `http-status.ts`.
+ *
+ * @typeParam Status - The status constant carried by the error.
+ *
+ * @example
+ * ```
+ * throw new HTTPError(CONFLICT, "The article was edited by someone else.");
+ * ```
+ */
+export class HTTPError<
+    Status extends HTTPStatus = HTTPStatus,
+> extends Error {
+    readonly status: Status["status"];
+    readonly statusText: Status["statusText"];
+    readonly headers: Headers;
+
+    constructor(
+        status: Status,
+        message: string = status.statusText,
+        options: HTTPErrorOptions = {},
+    ) {
+        super(
+            message,
+            "cause" in options ? { cause: options.cause } : undefined,
+        );
+        this.name = new.target.name;
+        this.status = status.status;
+        this.statusText = status.statusText;
+        this.headers = new Headers(options.headers);
+    }
+
+    /**
+     * Builds a Fetch `Response` carrying the status, status text and headers of the error.
+     *
+     * @param body - The response body. Defaults to the error message.
+     */
+    toResponse(body: BodyInit | null = this.message): Response {
+        return new Response(body, {
+            headers: this.headers,
+            status: this.status,
+            statusText: this.statusText,
+        });
+    }
+}
+
+/**
+ * Constructor of an {@link HTTPError} subclass bound to a single status constant.
+ */
+export type HTTPErrorClass<Status extends ErrorStatus> = {
+    new (message?: string, options?: HTTPErrorOptions): HTTPError<Status>;
+    readonly status: Status;
+};
+
+/**
+ * Helper function to create an {@link HTTPError} subclass bound to a status constant.
+ *
+ * @param status - The status constant carried by every instance.
+ * @param name - The class name, also used as the `name` of every instance.
+ */
+const NewHTTPErrorClass = <Status extends ErrorStatus>(
+    status: Status,
+    name: string,
+) => {
+    const ErrorClass = class extends HTTPError<Status> {
+        static readonly status = status;
+
+        constructor(message?: string, options?: HTTPErrorOptions) {
+            super(status, message, options);
+        }
+    };
+    Object.defineProperty(ErrorClass, "name", { value: name });
+
+    return ErrorClass;
+};
+
+/** Error carrying {@link BAD_REQUEST} (`400`). */
+export const BadRequestError = NewHTTPErrorClass(
+    BAD_REQUEST,
+    "BadRequestError",
+);
+export type BadRequestError = InstanceType<typeof BadRequestError>;
+
+/** Error carrying {@link UNAUTHORIZED} (`401`). */
+export const UnauthorizedError = NewHTTPErrorClass(
+    UNAUTHORIZED,
+    "UnauthorizedError",
+);
+export type UnauthorizedError = InstanceType<typeof UnauthorizedError>;
+
+/** Error carrying {@link PAYMENT_REQUIRED} (`402`). */
+export const PaymentRequiredError = NewHTTPErrorClass(
+    PAYMENT_REQUIRED,
+    "PaymentRequiredError",
+);
+export type PaymentRequiredError = InstanceType<
+    typeof PaymentRequiredError
+>;
+
+/** Error carrying {@link FORBIDDEN} (`403`). */
+export const ForbiddenError = NewHTTPErrorClass(
+    FORBIDDEN,
+    "ForbiddenError",
+);
+export type ForbiddenError = InstanceType<typeof ForbiddenError>;
+
+/** Error carrying {@link NOT_FOUND} (`404`). */
+export const NotFoundError = NewHTTPErrorClass(NOT_FOUND, "NotFoundError");
+export type NotFoundError = InstanceType<typeof NotFoundError>;
+
+/** Error carrying {@link METHOD_NOT_ALLOWED} (`405`). */
+export const MethodNotAllowedError = NewHTTPErrorClass(
+    METHOD_NOT_ALLOWED,
+    "MethodNotAllowedError",
+);
+export type MethodNotAllowedError = InstanceType<
+    typeof MethodNotAllowedError
+>;
+
+/** Error carrying {@link NOT_ACCEPTABLE} (`406`). */
+export const NotAcceptableError = NewHTTPErrorClass(
+    NOT_ACCEPTABLE,
+    "NotAcceptableError",
+);
+export type NotAcceptableError = InstanceType<typeof NotAcceptableError>;
+
+/** Error carrying {@link PROXY_AUTHENTICATION_REQUIRED} (`407`). */
+export const ProxyAuthenticationRequiredError = NewHTTPErrorClass(
+    PROXY_AUTHENTICATION_REQUIRED,
+    "ProxyAuthenticationRequiredError",
+);
+export type ProxyAuthenticationRequiredError = InstanceType<
+    typeof ProxyAuthenticationRequiredError
+>;
+
+/** Error carrying {@link REQUEST_TIMEOUT} (`408`). */
+export const RequestTimeoutError = NewHTTPErrorClass(
+    REQUEST_TIMEOUT,
+    "RequestTimeoutError",
+);
+export type RequestTimeoutError = InstanceType<typeof RequestTimeoutError>;
+
+/** Error carrying {@link CONFLICT} (`409`). */
+export const ConflictError = NewHTTPErrorClass(CONFLICT, "ConflictError");
+export type ConflictError = InstanceType<typeof ConflictError>;
+
+/** Error carrying {@link GONE} (`410`). */
+export const GoneError = NewHTTPErrorClass(GONE, "GoneError");
+export type GoneError = InstanceType<typeof GoneError>;
+
+/** Error carrying {@link LENGTH_REQUIRED} (`411`). */
+export const LengthRequiredError = NewHTTPErrorClass(
+    LENGTH_REQUIRED,
+    "LengthRequiredError",
+);
+export type LengthRequiredError = InstanceType<typeof LengthRequiredError>;
+
+/** Error carrying {@link PRECONDITION_FAILED} (`412`). */
+export const PreconditionFailedError = NewHTTPErrorClass(
+    PRECONDITION_FAILED,
+    "PreconditionFailedError",
+);
+export type PreconditionFailedError = InstanceType<
+    typeof PreconditionFailedError
+>;
+
+/** Error carrying {@link CONTENT_TOO_LARGE} (`413`). */
+export const ContentTooLargeError = NewHTTPErrorClass(
+    CONTENT_TOO_LARGE,
+    "ContentTooLargeError",
+);
+export type ContentTooLargeError = InstanceType<
+    typeof ContentTooLargeError
+>;
+
+/** Error carrying {@link URI_TOO_LONG} (`414`). */
+export const URITooLongError = NewHTTPErrorClass(
+    URI_TOO_LONG,
+    "URITooLongError",
+);
+export type URITooLongError = InstanceType<typeof URITooLongError>;
+
+/** Error carrying {@link UNSUPPORTED_MEDIA_TYPE} (`415`). */
+export const UnsupportedMediaTypeError = NewHTTPErrorClass(
+    UNSUPPORTED_MEDIA_TYPE,
+    "UnsupportedMediaTypeError",
+);
+export type UnsupportedMediaTypeError = InstanceType<
+    typeof UnsupportedMediaTypeError
+>;
+
+/** Error carrying {@link RANGE_NOT_SATISFIABLE} (`416`). */
+export const RangeNotSatisfiableError = NewHTTPErrorClass(
+    RANGE_NOT_SATISFIABLE,
+    "RangeNotSatisfiableError",
+);
+export type RangeNotSatisfiableError = InstanceType<
+    typeof RangeNotSatisfiableError
+>;
+
+/** Error carrying {@link EXPECTATION_FAILED} (`417`). */
+export const ExpectationFailedError = NewHTTPErrorClass(
+    EXPECTATION_FAILED,
+    "ExpectationFailedError",
+);
+export type ExpectationFailedError = InstanceType<
+    typeof ExpectationFailedError
+>;
+
+/** Error carrying {@link IM_A_TEAPOT} (`418`). */
+export const ImATeapotError = NewHTTPErrorClass(
+    IM_A_TEAPOT,
+    "ImATeapotError",
+);
+export type ImATeapotError = InstanceType<typeof ImATeapotError>;
+
+/** Error carrying {@link MISDIRECTED_REQUEST} (`421`). */
+export const MisdirectedRequestError = NewHTTPErrorClass(
+    MISDIRECTED_REQUEST,
+    "MisdirectedRequestError",
+);
+export type MisdirectedRequestError = InstanceType<
+    typeof MisdirectedRequestError
+>;
+
+/** Error carrying {@link UNPROCESSABLE_CONTENT} (`422`). */
+export const UnprocessableContentError = NewHTTPErrorClass(
+    UNPROCESSABLE_CONTENT,
+    "UnprocessableContentError",
+);
+export type UnprocessableContentError = InstanceType<
+    typeof UnprocessableContentError
+>;
+
+/** Error carrying {@link LOCKED} (`423`). */
+export const LockedError = NewHTTPErrorClass(LOCKED, "LockedError");
+export type LockedError = InstanceType<typeof LockedError>;
+
+/** Error carrying {@link FAILED_DEPENDENCY} (`424`). */
+export const FailedDependencyError = NewHTTPErrorClass(
+    FAILED_DEPENDENCY,
+    "FailedDependencyError",
+);
+export type FailedDependencyError = InstanceType<
+    typeof FailedDependencyError
+>;
+
+/** Error carrying {@link TOO_EARLY} (`425`). */
+export const TooEarlyError = NewHTTPErrorClass(TOO_EARLY, "TooEarlyError");
+export type TooEarlyError = InstanceType<typeof TooEarlyError>;
+
+/** Error carrying {@link UPGRADE_REQUIRED} (`426`). */
+export const UpgradeRequiredError = NewHTTPErrorClass(
+    UPGRADE_REQUIRED,
+    "UpgradeRequiredError",
+);
+export type UpgradeRequiredError = InstanceType<
+    typeof UpgradeRequiredError
+>;
+
+/** Error carrying {@link PRECONDITION_REQUIRED} (`428`). */
+export const PreconditionRequiredError = NewHTTPErrorClass(
+    PRECONDITION_REQUIRED,
+    "PreconditionRequiredError",
+);
+export type PreconditionRequiredError = InstanceType<
+    typeof PreconditionRequiredError
+>;
+
+/** Error carrying {@link TOO_MANY_REQUESTS} (`429`). */
+export const TooManyRequestsError = NewHTTPErrorClass(
+    TOO_MANY_REQUESTS,
+    "TooManyRequestsError",
+);
+export type TooManyRequestsError = InstanceType<
+    typeof TooManyRequestsError
+>;
+
+/** Error carrying {@link REQUEST_HEADER_FIELDS_TOO_LARGE} (`431`). */
+export const RequestHeaderFieldsTooLargeError = NewHTTPErrorClass(
+    REQUEST_HEADER_FIELDS_TOO_LARGE,
+    "RequestHeaderFieldsTooLargeError",
+);
+export type RequestHeaderFieldsTooLargeError = InstanceType<
+    typeof RequestHeaderFieldsTooLargeError
+>;
+
+/** Error carrying {@link UNAVAILABLE_FOR_LEGAL_REASONS} (`451`). */
+export const UnavailableForLegalReasonsError = NewHTTPErrorClass(
+    UNAVAILABLE_FOR_LEGAL_REASONS,
+    "UnavailableForLegalReasonsError",
+);
+export type UnavailableForLegalReasonsError = InstanceType<
+    typeof UnavailableForLegalReasonsError
+>;
+
+/** Error carrying {@link INTERNAL_SERVER_ERROR} (`500`). */
+export const InternalServerError = NewHTTPErrorClass(
+    INTERNAL_SERVER_ERROR,
+    "InternalServerError",
+);
+export type InternalServerError = InstanceType<typeof InternalServerError>;
+
+/** Error carrying {@link NOT_IMPLEMENTED} (`501`). */
+export const NotImplementedError = NewHTTPErrorClass(
+    NOT_IMPLEMENTED,
+    "NotImplementedError",
+);
+export type NotImplementedError = InstanceType<typeof NotImplementedError>;
+
+/** Error carrying {@link BAD_GATEWAY} (`502`). */
+export const BadGatewayError = NewHTTPErrorClass(
+    BAD_GATEWAY,
+    "BadGatewayError",
+);
+export type BadGatewayError = InstanceType<typeof BadGatewayError>;
+
+/** Error carrying {@link SERVICE_UNAVAILABLE} (`503`). */
+export const ServiceUnavailableError = NewHTTPErrorClass(
+    SERVICE_UNAVAILABLE,
+    "ServiceUnavailableError",
+);
+export type ServiceUnavailableError = InstanceType<
+    typeof ServiceUnavailableError
+>;
+
+/** Error carrying {@link GATEWAY_TIMEOUT} (`504`). */
+export const GatewayTimeoutError = NewHTTPErrorClass(
+    GATEWAY_TIMEOUT,
+    "GatewayTimeoutError",
+);
+export type GatewayTimeoutError = InstanceType<typeof GatewayTimeoutError>;
+
+/** Error carrying {@link HTTP_VERSION_NOT_SUPPORTED} (`505`). */
+export const HTTPVersionNotSupportedError = NewHTTPErrorClass(
+    HTTP_VERSION_NOT_SUPPORTED,
+    "HTTPVersionNotSupportedError",
+);
+export type HTTPVersionNotSupportedError = InstanceType<
+    typeof HTTPVersionNotSupportedError
+>;
+
+/** Error carrying {@link VARIANT_ALSO_NEGOTIATES} (`506`). */
+export const VariantAlsoNegotiatesError = NewHTTPErrorClass(
+    VARIANT_ALSO_NEGOTIATES,
+    "VariantAlsoNegotiatesError",
+);
+export type VariantAlsoNegotiatesError = InstanceType<
+    typeof VariantAlsoNegotiatesError
+>;
+
+/** Error carrying {@link INSUFFICIENT_STORAGE} (`507`). */
+export const InsufficientStorageError = NewHTTPErrorClass(
+    INSUFFICIENT_STORAGE,
+    "InsufficientStorageError",
+);
+export type InsufficientStorageError = InstanceType<
+    typeof InsufficientStorageError
+>;
+
+/** Error carrying {@link LOOP_DETECTED} (`508`). */
+export const LoopDetectedError = NewHTTPErrorClass(
+    LOOP_DETECTED,
+    "LoopDetectedError",
+);
+export type LoopDetectedError = InstanceType<typeof LoopDetectedError>;
+
+/** Error carrying {@link NOT_EXTENDED} (`510`). */
+export const NotExtendedError = NewHTTPErrorClass(
+    NOT_EXTENDED,
+    "NotExtendedError",
+);
+export type NotExtendedError = InstanceType<typeof NotExtendedError>;
+
+/** Error carrying {@link NETWORK_AUTHENTICATION_REQUIRED} (`511`). */
+export const NetworkAuthenticationRequiredError = NewHTTPErrorClass(
+    NETWORK_AUTHENTICATION_REQUIRED,
+    "NetworkAuthenticationRequiredError",
+);
+export type NetworkAuthenticationRequiredError = InstanceType<
+    typeof NetworkAuthenticationRequiredError
+>;
+
+/**
+ * Frozen registry of every {@link HTTPError} subclass, keyed by its status code.
+ */
+export const HTTP_ERROR_CLASSES: {
+    readonly [Code in ErrorCode]: HTTPErrorClass<StatusByCode<Code>>;
+} = Object.freeze({
+    400: BadRequestError,
+    401: UnauthorizedError,
+    402: PaymentRequiredError,
+    403: ForbiddenError,
+    404: NotFoundError,
+    405: MethodNotAllowedError,
+    406: NotAcceptableError,
+    407: ProxyAuthenticationRequiredError,
+    408: RequestTimeoutError,
+    409: ConflictError,
+    410: GoneError,
+    411: LengthRequiredError,
+    412: PreconditionFailedError,
+    413: ContentTooLargeError,
+    414: URITooLongError,
+    415: UnsupportedMediaTypeError,
+    416: RangeNotSatisfiableError,
+    417: ExpectationFailedError,
+    418: ImATeapotError,
+    421: MisdirectedRequestError,
+    422: UnprocessableContentError,
+    423: LockedError,
+    424: FailedDependencyError,
+    425: TooEarlyError,
+    426: UpgradeRequiredError,
+    428: PreconditionRequiredError,
+    429: TooManyRequestsError,
+    431: RequestHeaderFieldsTooLargeError,
+    451: UnavailableForLegalReasonsError,
+    500: InternalServerError,
+    501: NotImplementedError,
+    502: BadGatewayError,
+    503: ServiceUnavailableError,
+    504: GatewayTimeoutError,
+    505: HTTPVersionNotSupportedError,
+    506: VariantAlsoNegotiatesError,
+    507: InsufficientStorageError,
+    508: LoopDetectedError,
+    510: NotExtendedError,
+    511: NetworkAuthenticationRequiredError,
+});
+
+/**
+ * Creates an instance of the {@link HTTPError} subclass matching a status.
+ *
+ * @param status - A `4XX` or `5XX` status constant or code.
+ * @param message - The error message. Defaults to the status text.
+ * @param options - The error `cause` and response headers.
+ *
+ * @throws {RangeError} When the code has no {@link HTTPError} subclass, e.g. an unregistered
+ * code passed with a cast.
+ *
+ * @example
+ * ```
+ * const error = createHTTPError(SERVICE_UNAVAILABLE, "Down for maintenance", {
+ *     headers: { "Retry-After": "120" },
+ * });
+ * error instanceof ServiceUnavailableError; // true
+ * ```
+ */
+export const createHTTPError = <Code extends ErrorCode>(
+    status: Code | StatusByCode<Code>,
+    message?: string,
+    options?: HTTPErrorOptions,
+): HTTPError<StatusByCode<Code>> => {
+    const code = typeof status === "number" ? status : status.status;
+    if (!Object.prototype.hasOwnProperty.call(HTTP_ERROR_CLASSES, code)) {
+        throw new RangeError(`No HTTP error class for status ${code}.`);
+    }
+
+    return new (
+        HTTP_ERROR_CLASSES[code] as HTTPErrorClass<StatusByCode<Code>>
+    )(message, options);
+};
+
+/**
+ * Checks whether a value is an {@link HTTPError}.
+ *
+ * @param value - Any thrown value.
+ */
+export const isHTTPError = (value: unknown): value is HTTPError =>
+    value instanceof HTTPError;
+
+/**
+ * Converts any thrown value into an {@link HTTPError}.
+ *
+ * - An {@link HTTPError} is returned as is.
+ * - An error exposing a known `4XX` or `5XX` `status` or `statusCode`, as thrown by many
+ *   frameworks and libraries, becomes the matching subclass. `4XX` errors keep their message;
+ *   `5XX` errors get the default status text, as their message may reveal internal details.
+ * - Anything else becomes an {@link InternalServerError} with the default status text as its
+ *   message, so that internal details are not exposed; the original value is kept as `cause`.
+ *
+ * @param error - Any thrown value.
+ *
+ * @example
+ * ```
+ * catch (error) {
+ *     return toHTTPError(error).toResponse();
+ * }
+ * ```
+ */
+export const toHTTPError = (error: unknown): HTTPError => {
+    if (error instanceof HTTPError) {
+        return error;
+    }
+
+    if (error instanceof Error) {
+        const { status, statusCode } = error as Error & {
+            readonly status?: unknown;
+            readonly statusCode?: unknown;
+        };
+        const code = typeof status === "number" ? status : statusCode;
+        if (
+            typeof code === "number" &&
+            Object.prototype.hasOwnProperty.call(HTTP_ERROR_CLASSES, code)
+        ) {
+            return createHTTPError(
+                code as ErrorCode,
+                isServerError(code) ? undefined : error.message,
+                { cause: error },
+            );
+        }
+    }
+
+    return new InternalServerError(undefined, { cause: error });
+};
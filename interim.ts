@@ -0,0 +1,317 @@
+import type {
+    ClientRequest,
+    IncomingHttpHeaders,
+    IncomingMessage,
+    InformationEvent,
+    Server,
+    ServerResponse,
+} from "node:http";
+import { CONTINUE, EARLY_HINTS, EXPECTATION_FAILED } from "./http-status";
+import {
+    fromCode,
+    type KnownHTTPStatus,
+    type UnknownHTTPStatus,
+} from "./registry";
+import { applyStatus, withErrorHandling } from "./adapters/node";
+
+/**
+ * A resource the client may start loading while the server prepares the final response,
+ * sent as a `Link` header in `103 Early Hints`
+ * ([RFC 8297](https://www.rfc-editor.org/rfc/rfc8297)).
+ *
+ * @property href - The URL of the resource, or the origin to connect to for `preconnect`.
+ * @property rel - The link relation.
+ * @property as - The destination of a `preload`, e.g. `"style"` or `"script"`; required for
+ * `preload`.
+ * @property type - The media type of the resource.
+ * @property crossorigin - The CORS mode, required for fonts and cross-origin `preconnect`s.
+ */
+export type EarlyHint = {
+    readonly href: string;
+    readonly rel: "preload" | "preconnect" | "modulepreload";
+    readonly as?: string;
+    readonly type?: string;
+    readonly crossorigin?: "anonymous" | "use-credentials";
+};
+
+/**
+ * An interim `1XX` response received before the final response.
+ *
+ * @property status - The status constant matching the code, such as `EARLY_HINTS`.
+ * @property statusMessage - The reason phrase as received.
+ * @property headers - The headers of the interim response.
+ */
+export type InterimResponse = {
+    readonly status: KnownHTTPStatus | UnknownHTTPStatus;
+    readonly statusMessage: string;
+    readonly headers: IncomingHttpHeaders;
+};
+
+/**
+ * Valid `as` values of a `preload`, i.e. the
+ * [request destinations](https://fetch.spec.whatwg.org/#concept-request-destination) a
+ * preload can be made for.
+ */
+const PRELOAD_DESTINATIONS: ReadonlySet<string> = new Set<string>([
+    "audio",
+    "document",
+    "embed",
+    "fetch",
+    "font",
+    "image",
+    "object",
+    "script",
+    "style",
+    "track",
+    "video",
+    "worker",
+]);
+
+const TOKEN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+const invalid = (hint: EarlyHint, reason: string) =>
+    new TypeError(`Invalid early hint for ${hint.href}: ${reason}.`);
+
+/**
+ * Validates early hints and formats them as `Link` header values
+ * ([RFC 8288 §3](https://www.rfc-editor.org/rfc/rfc8288#section-3)).
+ *
+ * @param hints - The resources to hint.
+ *
+ * @returns One `Link` value per hint.
+ *
+ * @throws {TypeError} When a URL is malformed, a `preload` lacks a valid `as`, a
+ * `preconnect` target has a path, or a parameter is not a token.
+ *
+ * @example
+ * ```
+ * formatEarlyHints([
+ *     { href: "/style.css", rel: "preload", as: "style" },
+ *     { href: "https://fonts.example", rel: "preconnect", crossorigin: "anonymous" },
+ * ]);
+ * // ['</style.css>; rel=preload; as=style', '<https://fonts.example>; rel=preconnect; crossorigin=anonymous']
+ * ```
+ */
+export const formatEarlyHints = (hints: readonly EarlyHint[]): string[] =>
+    hints.map((hint) => {
+        if (hint.href === "" || /[\s<>\x00-\x1f\x7f]/.test(hint.href)) {
+            throw invalid(hint, "the URL has forbidden characters");
+        }
+
+        switch (hint.rel) {
+            case "preload":
+                if (
+                    hint.as === undefined ||
+                    !PRELOAD_DESTINATIONS.has(hint.as)
+                ) {
+                    throw invalid(hint, `"as" must be a valid destination`);
+                }
+                break;
+            case "modulepreload":
+                break;
+            case "preconnect": {
+                let url: URL;
+                try {
+                    url = new URL(hint.href);
+                } catch {
+                    throw invalid(
+                        hint,
+                        "the target must be an absolute URL",
+                    );
+                }
+                if (url.pathname !== "/" || url.search || url.hash) {
+                    throw invalid(hint, "the target must be an origin");
+                }
+                break;
+            }
+            default:
+                throw invalid(hint, `unsupported relation "${hint.rel}"`);
+        }
+
+        if (
+            hint.type !== undefined &&
+            !/^[\w.+-]+\/[\w.+-]+$/.test(hint.type)
+        ) {
+            throw invalid(hint, `"type" must be a media type`);
+        }
+
+        const params = [
+            ["rel", hint.rel],
+            ["as", hint.as],
+            ["type", hint.type && `"${hint.type}"`],
+            ["crossorigin", hint.crossorigin],
+        ].filter(
+            (param): param is [string, string] => param[1] !== undefined,
+        );
+        for (const [name, value] of params) {
+            if (name !== "type" && !TOKEN.test(value)) {
+                throw invalid(hint, `"${name}" must be a token`);
+            }
+        }
+
+        return [
+            `<${hint.href}>`,
+            ...params.map(([name, value]) => `${name}=${value}`),
+        ].join("; ");
+    });
+
+/**
+ * Sends a `103 Early Hints` interim response with `Link` headers, so that the client starts
+ * loading resources while the final response is prepared. Does nothing once the final
+ * response headers were sent.
+ *
+ * Browsers only act on early hints over HTTP/2 and later, and ignore hints that are not
+ * repeated in the final response, so send the same `Link` headers again with it.
+ *
+ * @param response - The `node:http` server response.
+ * @param hints - The resources to hint.
+ *
+ * @throws {TypeError} When a hint is invalid; see {@link formatEarlyHints}.
+ *
+ * @example
+ * ```
+ * http.createServer(async (req, res) => {
+ *     sendEarlyHints(res, [{ href: "/app.js", rel: "preload", as: "script" }]);
+ *     const page = await render(req);
+ *     res.end(page);
+ * });
+ * ```
+ */
+export const sendEarlyHints = (
+    response: Pick<ServerResponse, "headersSent" | "writeEarlyHints">,
+    hints: readonly EarlyHint[],
+): void => {
+    const link = formatEarlyHints(hints);
+    if (response.headersSent || link.length === 0) {
+        return;
+    }
+
+    response.writeEarlyHints({ link });
+};
+
+/**
+ * Decides whether to accept the body of a request sent with `Expect: 100-continue`
+ * ([RFC 9110 §10.1.1](https://httpwg.org/specs/rfc9110.html#field.expect)), before the
+ * client sends it.
+ *
+ * @param request - The request, with its headers but without its body.
+ * @param predicate - Returns whether the body is wanted, e.g. after checking its length or
+ * the credentials.
+ *
+ * @returns `CONTINUE` when the expectation is `100-continue` and the predicate accepts the
+ * request, `EXPECTATION_FAILED` otherwise.
+ */
+export const decideExpectation = async <Request extends IncomingMessage>(
+    request: Request,
+    predicate: (request: Request) => boolean | Promise<boolean>,
+): Promise<typeof CONTINUE | typeof EXPECTATION_FAILED> =>
+    request.headers.expect?.trim().toLowerCase() === "100-continue" &&
+    (await predicate(request))
+        ? CONTINUE
+        : EXPECTATION_FAILED;
+
+/**
+ * Handles the `Expect` header on a `node:http` server. Requests with `Expect: 100-continue`
+ * get `100 Continue` and reach the listener when the predicate accepts them, and
+ * `417 Expectation Failed` otherwise; requests with any other expectation get
+ * `417 Expectation Failed`.
+ *
+ * Without this, Node answers every `100-continue` with `100 Continue`. Errors thrown by the
+ * predicate or the listener are answered as by `withErrorHandling`.
+ *
+ * @param server - The `node:http` server.
+ * @param listener - The request listener of the server.
+ * @param predicate - Returns whether the body of a request is wanted.
+ *
+ * @example
+ * ```
+ * const listener = (req, res) => { ... };
+ * const server = http.createServer(listener);
+ * handleExpectations(server, listener, (req) =>
+ *     Number(req.headers["content-length"]) <= 10_000_000,
+ * );
+ * ```
+ */
+export const handleExpectations = (
+    server: Pick<Server, "on">,
+    listener: (
+        request: IncomingMessage,
+        response: ServerResponse,
+    ) => unknown,
+    predicate: (request: IncomingMessage) => boolean | Promise<boolean>,
+): void => {
+    const reject = (response: ServerResponse) => {
+        applyStatus(response, EXPECTATION_FAILED);
+        response.setHeader("Connection", "close");
+        response.end();
+    };
+
+    server.on(
+        "checkContinue",
+        withErrorHandling(
+            async (request: IncomingMessage, response: ServerResponse) => {
+                if (
+                    (await decideExpectation(request, predicate)) !==
+                    CONTINUE
+                ) {
+                    reject(response);
+                    return;
+                }
+
+                response.writeContinue();
+                await listener(request, response);
+            },
+        ),
+    );
+    server.on("checkExpectation", (_request, response) => reject(response));
+};
+
+/**
+ * Collects the interim `1XX` responses of a `node:http` client request, such as
+ * `100 Continue` and `103 Early Hints`, as they arrive. `101 Switching Protocols` is
+ * reported by Node as an `upgrade` event instead.
+ *
+ * @param request - The client request, before it is ended.
+ * @param onInterim - Called for each interim response.
+ *
+ * @returns The interim responses received so far; the array fills up as they arrive.
+ *
+ * @example
+ * ```
+ * const request = http.request(url);
+ * const interim = observeInterimResponses(request);
+ * request.on("response", () => {
+ *     interim.filter(({ status }) => status === EARLY_HINTS); // preload hints
+ * });
+ * request.end();
+ * ```
+ */
+export const observeInterimResponses = (
+    request: Pick<ClientRequest, "on">,
+    onInterim?: (response: InterimResponse) => void,
+): readonly InterimResponse[] => {
+    const received: InterimResponse[] = [];
+    request.on("information", (information: InformationEvent) => {
+        const response = Object.freeze({
+            status: fromCode(information.statusCode),
+            statusMessage: information.statusMessage,
+            headers: information.headers,
+        });
+        received.push(response);
+        onInterim?.(response);
+    });
+
+    return received;
+};
+
+/**
+ * Extracts the `Link` values of the `103 Early Hints` responses among interim responses.
+ *
+ * @param responses - The interim responses, as collected by {@link observeInterimResponses}.
+ */
+export const earlyHintLinks = (
+    responses: readonly InterimResponse[],
+): string[] =>
+    responses
+        .filter(({ status }) => status.status === EARLY_HINTS.status)
+        .flatMap(({ headers }) => [headers.link ?? []].flat());
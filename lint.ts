@@ -0,0 +1,844 @@
+import { FOUND } from "./http-status";
+import { getMetadata } from "./metadata";
+import {
+    fromCode,
+    fromName,
+    isKnownStatus,
+    nameOf,
+    STATUS_BY_CODE,
+    type KnownHTTPStatus,
+    type StatusCode,
+    type StatusName,
+} from "./registry";
+import { redirectWarning } from "./redirect";
+import { RECOMMENDED_HEADERS, REQUIRED_HEADERS } from "./responses";
+
+/**
+ * The rules of the status code policy.
+ *
+ * - `no-found`: `302 Found` leaves clients free to switch a `POST` to `GET`; APIs should use
+ *   `SEE_OTHER` or `TEMPORARY_REDIRECT` instead.
+ * - `no-obsolete-status`: `USE_PROXY` and `UNUSED` are not followed by clients.
+ * - `no-deprecated-status`: other deprecated statuses, such as `PROCESSING`.
+ * - `required-headers`: responses must carry the headers their status requires, such as
+ *   `Location` with `SEE_OTHER` (see `REQUIRED_HEADERS`), and those an API contract relies
+ *   on, such as `Location` with `CREATED` (see `RECOMMENDED_HEADERS`).
+ * - `prefer-constant`: status codes written as numbers where a constant exists. Source only.
+ */
+export type LintRule =
+    | "no-found"
+    | "no-obsolete-status"
+    | "no-deprecated-status"
+    | "required-headers"
+    | "prefer-constant";
+
+/**
+ * The severity of a rule; `"off"` disables it.
+ */
+export type LintSeverity = "error" | "warning" | "off";
+
+/**
+ * A rule set, mapping rules to their severity. Rules left out keep their default severity
+ * from {@link DEFAULT_LINT_RULES}.
+ */
+export type LintRules = { readonly [Rule in LintRule]?: LintSeverity };
+
+/**
+ * A policy violation, in a source file or a HAR file.
+ *
+ * @property rule - The violated rule.
+ * @property severity - The severity of the rule.
+ * @property message - A human-readable explanation.
+ * @property file - The path of the offending file.
+ * @property line - The 1-based line of the violation, in source files.
+ * @property column - The 1-based column of the violation, in source files.
+ * @property pointer - The JSON Pointer of the offending status, in HAR files.
+ */
+export type LintIssue = {
+    readonly rule: LintRule;
+    readonly severity: Exclude<LintSeverity, "off">;
+    readonly message: string;
+    readonly file: string;
+    readonly line?: number;
+    readonly column?: number;
+    readonly pointer?: string;
+};
+
+/**
+ * The default severity of every rule.
+ */
+export const DEFAULT_LINT_RULES: {
+    readonly [Rule in LintRule]: LintSeverity;
+} = Object.freeze({
+    "no-found": "error",
+    "no-obsolete-status": "error",
+    "no-deprecated-status": "warning",
+    "required-headers": "error",
+    "prefer-constant": "warning",
+});
+
+const DESCRIPTIONS: { readonly [Rule in LintRule]: string } = {
+    "no-found":
+        "Disallow 302 Found, whose method handling is ambiguous; use SEE_OTHER or TEMPORARY_REDIRECT.",
+    "no-obsolete-status": "Disallow the obsolete USE_PROXY and UNUSED.",
+    "no-deprecated-status":
+        "Disallow deprecated statuses such as PROCESSING.",
+    "required-headers":
+        "Require the headers a status mandates, such as Location with CREATED.",
+    "prefer-constant": "Prefer status constants over numeric status codes.",
+};
+
+const RULES = Object.keys(DEFAULT_LINT_RULES) as LintRule[];
+
+type Violation = {
+    readonly rule: LintRule;
+    readonly message: string;
+};
+
+/**
+ * Checks a status against the rules that only depend on the status itself.
+ */
+const checkStatus = (status: KnownHTTPStatus): Violation[] => {
+    const text = `${status.status} ${status.statusText}`;
+    if (status.status === FOUND.status) {
+        return [
+            {
+                rule: "no-found",
+                message: `${text} is ambiguous: clients may switch a POST to GET. Use SEE_OTHER or TEMPORARY_REDIRECT.`,
+            },
+        ];
+    }
+
+    const warning = redirectWarning(status);
+    if (warning !== undefined) {
+        return [{ rule: "no-obsolete-status", message: warning }];
+    }
+
+    return getMetadata(status)?.deprecated
+        ? [
+              {
+                  rule: "no-deprecated-status",
+                  message: `${text} is deprecated.`,
+              },
+          ]
+        : [];
+};
+
+const checkHeaders = (
+    status: KnownHTTPStatus,
+    present: ReadonlySet<string>,
+): Violation[] =>
+    [
+        ...(REQUIRED_HEADERS[status.status] ?? []),
+        ...(RECOMMENDED_HEADERS[status.status] ?? []),
+    ]
+        .filter((name) => !present.has(name.toLowerCase()))
+        .map((name) => ({
+            rule: "required-headers",
+            message: `A ${status.status} ${status.statusText} response requires the ${name} header.`,
+        }));
+
+type Node = { readonly [key: string]: unknown };
+
+const isNode = (value: unknown): value is Node =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Options of {@link lintHAR}.
+ *
+ * @property rules - The severity of each rule.
+ * @property file - The path reported in the issues. Defaults to `"<har>"`.
+ */
+export type LintOptions = {
+    readonly rules?: LintRules;
+    readonly file?: string;
+};
+
+/**
+ * Checks the responses recorded in a [HAR](https://w3c.github.io/web-performance/specs/HAR/Overview.html)
+ * file, e.g. exported from the browser developer tools, against the status code policy.
+ *
+ * Entries without a response (status `0`) and non-standard codes are skipped.
+ * `prefer-constant` does not apply to recorded traffic.
+ *
+ * @param har - The parsed HAR file.
+ * @param options - The rule set and the reported file path.
+ *
+ * @returns The violations, in entry order.
+ *
+ * @throws {TypeError} When the document has no `log.entries` array.
+ *
+ * @example
+ * ```
+ * lintHAR(JSON.parse(await readFile("session.har", "utf8")), { file: "session.har" });
+ * // [{
+ * //     rule: "required-headers",
+ * //     severity: "error",
+ * //     message: "POST https://api.example.com/orders: A 201 Created response requires the Location header.",
+ * //     file: "session.har",
+ * //     pointer: "/log/entries/4/response/status",
+ * // }]
+ * ```
+ */
+export const lintHAR = (
+    har: unknown,
+    options: LintOptions = {},
+): LintIssue[] => {
+    const entries =
+        isNode(har) && isNode(har.log) ? har.log.entries : undefined;
+    if (!Array.isArray(entries)) {
+        throw new TypeError("Invalid HAR file: missing log.entries.");
+    }
+
+    const rules = { ...DEFAULT_LINT_RULES, ...options.rules };
+    const file = options.file ?? "<har>";
+
+    return entries.flatMap((entry: unknown, index) => {
+        const request = isNode(entry) ? entry.request : undefined;
+        const response = isNode(entry) ? entry.response : undefined;
+        if (!isNode(response) || typeof response.status !== "number") {
+            return [];
+        }
+
+        const status = fromCode(response.status);
+        if (!isKnownStatus(status)) {
+            return [];
+        }
+
+        const present = new Set(
+            (Array.isArray(response.headers) ? response.headers : [])
+                .map((header: unknown) =>
+                    isNode(header) ? String(header.name).toLowerCase() : "",
+                )
+                .filter(Boolean),
+        );
+        const target = isNode(request)
+            ? `${String(request.method)} ${String(request.url)}: `
+            : "";
+
+        return [...checkStatus(status), ...checkHeaders(status, present)]
+            .filter(({ rule }) => rules[rule] !== "off")
+            .map(({ rule, message }) =>
+                Object.freeze({
+                    rule,
+                    severity: rules[rule] as LintIssue["severity"],
+                    message: `${target}${message}`,
+                    file,
+                    pointer: `/log/entries/${index}/response/status`,
+                }),
+            );
+    });
+};
+
+/**
+ * An [ESTree](https://github.com/estree/estree) node, as produced by the parsers ESLint uses
+ * (`espree`, `@typescript-eslint/parser`). It has no index signature, so that ESLint's own
+ * node types are assignable to it; child nodes are read with `child()` and `children()`.
+ */
+type SyntaxNode = {
+    readonly type: string;
+    readonly parent?: unknown;
+    readonly name?: unknown;
+    readonly value?: unknown;
+    readonly computed?: unknown;
+};
+
+/**
+ * The part of an ESLint [rule context](https://eslint.org/docs/latest/extend/custom-rules#the-context-object)
+ * used by the rules.
+ */
+type RuleContext = {
+    readonly report: (descriptor: {
+        readonly node: SyntaxNode;
+        readonly message: string;
+    }) => void;
+};
+
+const isSyntaxNode = (value: unknown): value is SyntaxNode =>
+    isNode(value) && typeof value.type === "string";
+
+const child = (node: SyntaxNode | undefined, key: string) => {
+    const fields: Node | undefined = node;
+    const value = fields?.[key];
+
+    return isSyntaxNode(value) ? value : undefined;
+};
+
+const children = (node: SyntaxNode, key: string): SyntaxNode[] => {
+    const fields: Node = node;
+    const value = fields[key];
+
+    return Array.isArray(value) ? value.filter(isSyntaxNode) : [];
+};
+
+/**
+ * Returns the static name of a property key, e.g. `status` in `{ status: 404 }`,
+ * `res.status` or `headers["Location"]`.
+ */
+const keyName = (
+    node: SyntaxNode | undefined,
+    key: "key" | "property",
+): string | undefined => {
+    const target = child(node, key);
+    if (target?.type === "Identifier" && node?.computed !== true) {
+        return target.name as string;
+    }
+
+    return target?.type === "Literal" && typeof target.value === "string"
+        ? target.value
+        : undefined;
+};
+
+/**
+ * Properties whose assignment sets the status, e.g. `res.statusCode = 404` or Koa's
+ * `ctx.status = 404`.
+ */
+const STATUS_PROPERTIES: ReadonlySet<string> = new Set<string>([
+    "status",
+    "statusCode",
+]);
+
+/**
+ * Methods whose first argument is the status to send, e.g. `res.status(404)`.
+ */
+const STATUS_METHODS: ReadonlySet<string> = new Set<string>([
+    "status",
+    "sendStatus",
+    "writeHead",
+    "code",
+]);
+
+/**
+ * The factories of `responses.ts` whose first argument is the status to send.
+ */
+const STATUS_FACTORIES: ReadonlySet<string> = new Set<string>([
+    "respond",
+    "redirect",
+]);
+
+const isStatusAccess = (node: SyntaxNode | undefined) =>
+    node?.type === "MemberExpression" &&
+    STATUS_PROPERTIES.has(keyName(node, "property") ?? "");
+
+/**
+ * Returns the name of a called function or method, e.g. `respond` in `respond(...)` or
+ * `status` in `res.status(...)`.
+ */
+const calleeName = (callee: SyntaxNode | undefined): string | undefined =>
+    callee?.type === "Identifier"
+        ? (callee.name as string)
+        : callee?.type === "MemberExpression"
+          ? keyName(callee, "property")
+          : undefined;
+
+/**
+ * Returns the lowercased names of a literal header list (an object, an array of pairs or
+ * `new Headers(...)` of either), or `undefined` when they cannot be known statically.
+ */
+const headerNames = (
+    node: SyntaxNode | undefined,
+): ReadonlySet<string> | undefined => {
+    switch (node?.type) {
+        case "ObjectExpression": {
+            const names = children(node, "properties").map((property) =>
+                property.type === "Property"
+                    ? keyName(property, "key")
+                    : undefined,
+            );
+
+            return names.every((name) => name !== undefined)
+                ? new Set(names.map((name) => name.toLowerCase()))
+                : undefined;
+        }
+        case "ArrayExpression": {
+            const names = children(node, "elements").map((pair) => {
+                const name = children(pair, "elements")[0];
+
+                return name?.type === "Literal" &&
+                    typeof name.value === "string"
+                    ? name.value
+                    : undefined;
+            });
+
+            return names.every((name) => name !== undefined)
+                ? new Set(names.map((name) => name.toLowerCase()))
+                : undefined;
+        }
+        case "NewExpression": {
+            const callee = child(node, "callee");
+            const [init] = children(node, "arguments");
+
+            return callee?.type === "Identifier" &&
+                callee.name === "Headers"
+                ? init === undefined
+                    ? new Set()
+                    : headerNames(init)
+                : undefined;
+        }
+        default:
+            return undefined;
+    }
+};
+
+const HTTP_STATUS_MODULE = /(^|\/)http-status(\.[jt]s)?$/;
+
+/**
+ * Creates the ESTree visitor shared by every ESLint rule. Status constants are recognized
+ * when imported from `http-status`, by name or as a namespace.
+ *
+ * Only statuses a response is sent with are checked: the init of `new Response()` and
+ * `Response.json()`, `res.status()` and similar methods, assignments to `res.statusCode`,
+ * and `respond()`. Statuses that are only read, as in `res.status === 302` or a `case`, are
+ * not.
+ */
+const createVisitor = (
+    report: (node: SyntaxNode, violation: Violation) => void,
+) => {
+    const imported = new Map<string, StatusName>();
+    const namespaces = new Set<string>();
+
+    const constantOf = (
+        node: SyntaxNode | undefined,
+    ): KnownHTTPStatus | undefined => {
+        if (node?.type === "Identifier") {
+            const name = imported.get(node.name as string);
+
+            return name === undefined ? undefined : fromName(name);
+        }
+
+        const object = child(node, "object");
+        if (
+            node?.type === "MemberExpression" &&
+            object?.type === "Identifier" &&
+            namespaces.has(object.name as string)
+        ) {
+            return fromName(keyName(node, "property") ?? "");
+        }
+
+        return undefined;
+    };
+
+    const statusOf = (
+        node: SyntaxNode | undefined,
+    ): KnownHTTPStatus | undefined => {
+        if (node?.type === "Literal" && typeof node.value === "number") {
+            return STATUS_BY_CODE[node.value as StatusCode];
+        }
+
+        return node?.type === "MemberExpression" &&
+            keyName(node, "property") === "status"
+            ? constantOf(child(node, "object"))
+            : constantOf(node);
+    };
+
+    /**
+     * Checks a status a response is sent with, and the headers sent along when they are
+     * known; `null` headers mean none.
+     */
+    const checkEmitted = (
+        node: SyntaxNode,
+        headers?: SyntaxNode | null,
+    ): void => {
+        const status = statusOf(node);
+        if (status === undefined) {
+            return;
+        }
+
+        if (node.type === "Literal") {
+            report(node, {
+                rule: "prefer-constant",
+                message: `Use the ${nameOf(status)} constant instead of ${status.status}.`,
+            });
+        }
+        checkStatus(status).forEach((violation) => report(node, violation));
+
+        const present =
+            headers === null ? new Set<string>() : headerNames(headers);
+        if (present !== undefined) {
+            checkHeaders(status, present).forEach((violation) =>
+                report(node, violation),
+            );
+        }
+    };
+
+    /**
+     * Returns the `headers` of an options object: `null` when there are none, and
+     * `undefined` when they cannot be known, e.g. with a spread `...init`.
+     */
+    const headersOf = (
+        options: SyntaxNode | undefined,
+    ): SyntaxNode | null | undefined => {
+        if (options === undefined) {
+            return null;
+        }
+        if (options.type !== "ObjectExpression") {
+            return undefined;
+        }
+
+        let headers: SyntaxNode | null = null;
+        for (const property of children(options, "properties")) {
+            if (property.type === "SpreadElement") {
+                if (constantOf(child(property, "argument")) === undefined) {
+                    return undefined;
+                }
+            } else if (keyName(property, "key") === "headers") {
+                headers = child(property, "value") ?? null;
+            }
+        }
+
+        return headers;
+    };
+
+    /**
+     * Checks the init of a Fetch `Response`: a status constant, or an object with a
+     * `status` or a spread constant.
+     */
+    const checkInit = (init: SyntaxNode | undefined) => {
+        if (init !== undefined && constantOf(init) !== undefined) {
+            checkEmitted(init, null);
+            return;
+        }
+
+        let status: SyntaxNode | undefined;
+        const properties =
+            init?.type === "ObjectExpression"
+                ? children(init, "properties")
+                : [];
+        for (const property of properties) {
+            if (property.type === "SpreadElement") {
+                const argument = child(property, "argument");
+                status =
+                    constantOf(argument) === undefined ? status : argument;
+            } else if (keyName(property, "key") === "status") {
+                status = child(property, "value");
+            }
+        }
+        if (status !== undefined) {
+            checkEmitted(status, headersOf(init));
+        }
+    };
+
+    return {
+        ImportDeclaration: (node: SyntaxNode) => {
+            const source = child(node, "source");
+            if (!HTTP_STATUS_MODULE.test(String(source?.value))) {
+                return;
+            }
+
+            for (const specifier of children(node, "specifiers")) {
+                const local = String(child(specifier, "local")?.name);
+                const exported = child(specifier, "imported");
+                const name = String(exported?.name ?? exported?.value);
+                if (specifier.type === "ImportNamespaceSpecifier") {
+                    namespaces.add(local);
+                } else if (
+                    specifier.type === "ImportSpecifier" &&
+                    fromName(name) !== undefined
+                ) {
+                    imported.set(local, name as StatusName);
+                }
+            }
+        },
+        NewExpression: (node: SyntaxNode) => {
+            const callee = child(node, "callee");
+            if (
+                callee?.type === "Identifier" &&
+                callee.name === "Response"
+            ) {
+                checkInit(children(node, "arguments")[1]);
+            }
+        },
+        CallExpression: (node: SyntaxNode) => {
+            const callee = child(node, "callee");
+            const name = calleeName(callee);
+            const [status, ...rest] = children(node, "arguments");
+            const object = child(callee, "object");
+            if (
+                name === "json" &&
+                object?.type === "Identifier" &&
+                object.name === "Response"
+            ) {
+                checkInit(rest[0]);
+            } else if (
+                callee?.type === "MemberExpression" &&
+                STATUS_METHODS.has(name ?? "") &&
+                status !== undefined
+            ) {
+                // Without a header argument, headers may be set with `setHeader()` beforehand.
+                checkEmitted(
+                    status,
+                    name === "writeHead"
+                        ? rest.find(
+                              (argument) => argument.type !== "Literal",
+                          )
+                        : undefined,
+                );
+            } else if (
+                STATUS_FACTORIES.has(name ?? "") &&
+                status !== undefined
+            ) {
+                // `redirect()` sets the `Location` header itself.
+                checkEmitted(
+                    status,
+                    name === "respond" ? headersOf(rest[1]) : undefined,
+                );
+            }
+        },
+        AssignmentExpression: (node: SyntaxNode) => {
+            const right = child(node, "right");
+            if (
+                isStatusAccess(child(node, "left")) &&
+                right !== undefined
+            ) {
+                checkEmitted(right);
+            }
+        },
+    };
+};
+
+const ESLINT_SEVERITIES = {
+    error: "error",
+    warning: "warn",
+    off: "off",
+} as const;
+
+const PLUGIN_NAME = "http-status";
+
+const createRule = (rule: LintRule) =>
+    Object.freeze({
+        meta: Object.freeze({
+            type:
+                rule === "prefer-constant"
+                    ? ("suggestion" as const)
+                    : ("problem" as const),
+            docs: Object.freeze({ description: DESCRIPTIONS[rule] }),
+            schema: Object.freeze([]),
+        }),
+        create: (context: RuleContext) =>
+            createVisitor((node, violation) => {
+                if (violation.rule === rule) {
+                    context.report({ node, message: violation.message });
+                }
+            }),
+    });
+
+/**
+ * The shape of {@link eslintPlugin}, compatible with ESLint's `ESLint.Plugin`.
+ */
+export type ESLintPlugin = {
+    readonly meta: { readonly name: string };
+    readonly rules: {
+        readonly [Rule in LintRule]: ReturnType<typeof createRule>;
+    };
+    readonly configs: {
+        readonly recommended: {
+            readonly plugins: { readonly [name: string]: ESLintPlugin };
+            readonly rules: {
+                readonly [name: string]: "error" | "warn" | "off";
+            };
+        };
+    };
+};
+
+/**
+ * An [ESLint](https://eslint.org/) plugin enforcing the status code policy in JavaScript and
+ * TypeScript source (parsed with `@typescript-eslint/parser`), with one ESLint rule per
+ * {@link LintRule}. The `recommended` config enables them with {@link DEFAULT_LINT_RULES}.
+ *
+ * Status constants are recognized when imported from `http-status`. Only the statuses a
+ * response is sent with are checked, not comparisons. `required-headers` checks response
+ * inits, `respond()` and `writeHead()` calls whose headers are written literally.
+ *
+ * @example
+ * ```
+ * // eslint.config.js
+ * import tsParser from "@typescript-eslint/parser";
+ * import { eslintPlugin } from "./lint";
+ *
+ * export default [
+ *     { files: ["**\/*.ts"], languageOptions: { parser: tsParser } },
+ *     eslintPlugin.configs.recommended,
+ *     { rules: { "http-status/no-found": "off" } },
+ * ];
+ * ```
+ */
+export const eslintPlugin: ESLintPlugin = (() => {
+    const plugins: { [name: string]: ESLintPlugin } = {};
+    const plugin: ESLintPlugin = Object.freeze({
+        meta: Object.freeze({ name: PLUGIN_NAME }),
+        rules: Object.freeze(
+            Object.fromEntries(
+                RULES.map((rule) => [rule, createRule(rule)]),
+            ) as ESLintPlugin["rules"],
+        ),
+        configs: Object.freeze({
+            recommended: Object.freeze({
+                plugins,
+                rules: Object.freeze(
+                    Object.fromEntries(
+                        RULES.map((rule) => [
+                            `${PLUGIN_NAME}/${rule}`,
+                            ESLINT_SEVERITIES[DEFAULT_LINT_RULES[rule]],
+                        ]),
+                    ),
+                ),
+            }),
+        }),
+    });
+    plugins[PLUGIN_NAME] = plugin;
+    Object.freeze(plugins);
+
+    return plugin;
+})();
+
+/**
+ * The part of an ESLint [`LintResult`](https://eslint.org/docs/latest/integrate/nodejs-api#-lintresult-type)
+ * read by {@link fromESLintResults}.
+ */
+export type ESLintResult = {
+    readonly filePath: string;
+    readonly messages: readonly {
+        readonly ruleId: string | null;
+        readonly severity: number;
+        readonly message: string;
+        readonly line?: number;
+        readonly column?: number;
+    }[];
+};
+
+/**
+ * Converts the results of ESLint to issues, keeping only the messages of {@link eslintPlugin},
+ * so that source and HAR violations can be reported together.
+ *
+ * @param results - The results of `ESLint.lintFiles()`, or the output of `eslint --format json`.
+ *
+ * @example
+ * ```
+ * const eslint = new ESLint();
+ * const issues = [
+ *     ...fromESLintResults(await eslint.lintFiles(["src"])),
+ *     ...lintHAR(har, { file: "session.har" }),
+ * ];
+ * await writeFile("status-policy.sarif", JSON.stringify(toSARIF(issues), null, 2));
+ * ```
+ */
+export const fromESLintResults = (
+    results: readonly ESLintResult[],
+): LintIssue[] =>
+    results.flatMap((result) =>
+        result.messages.flatMap((message) => {
+            const rule = message.ruleId?.slice(PLUGIN_NAME.length + 1);
+            if (
+                message.ruleId !== `${PLUGIN_NAME}/${rule}` ||
+                !RULES.includes(rule as LintRule)
+            ) {
+                return [];
+            }
+
+            return [
+                Object.freeze({
+                    rule: rule as LintRule,
+                    severity:
+                        message.severity === 2
+                            ? ("error" as const)
+                            : ("warning" as const),
+                    message: message.message,
+                    file: result.filePath,
+                    line: message.line,
+                    column: message.column,
+                }),
+            ];
+        }),
+    );
+
+/**
+ * A [SARIF 2.1.0](https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html) log, as
+ * produced by {@link toSARIF}.
+ */
+export type SARIFLog = {
+    readonly $schema: string;
+    readonly version: "2.1.0";
+    readonly runs: readonly {
+        readonly tool: {
+            readonly driver: {
+                readonly name: string;
+                readonly rules: readonly {
+                    readonly id: LintRule;
+                    readonly shortDescription: { readonly text: string };
+                }[];
+            };
+        };
+        readonly results: readonly {
+            readonly ruleId: LintRule;
+            readonly ruleIndex: number;
+            readonly level: "error" | "warning";
+            readonly message: { readonly text: string };
+            readonly locations: readonly {
+                readonly physicalLocation: {
+                    readonly artifactLocation: { readonly uri: string };
+                    readonly region?: {
+                        readonly startLine: number;
+                        readonly startColumn?: number;
+                    };
+                };
+                readonly logicalLocations?: readonly {
+                    readonly fullyQualifiedName: string;
+                }[];
+            }[];
+        }[];
+    }[];
+};
+
+/**
+ * Formats issues as a SARIF log, for GitHub code scanning and other SARIF viewers.
+ *
+ * @param issues - The issues, from {@link lintHAR} and {@link fromESLintResults}.
+ *
+ * @example
+ * ```
+ * JSON.stringify(toSARIF(lintHAR(har, { file: "session.har" })));
+ * ```
+ */
+export const toSARIF = (issues: readonly LintIssue[]): SARIFLog => ({
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+        {
+            tool: {
+                driver: {
+                    name: PLUGIN_NAME,
+                    rules: RULES.map((id) => ({
+                        id,
+                        shortDescription: { text: DESCRIPTIONS[id] },
+                    })),
+                },
+            },
+            results: issues.map((issue) => ({
+                ruleId: issue.rule,
+                ruleIndex: RULES.indexOf(issue.rule),
+                level: issue.severity,
+                message: { text: issue.message },
+                locations: [
+                    {
+                        physicalLocation: {
+                            artifactLocation: {
+                                uri: issue.file.replace(/\\/g, "/"),
+                            },
+                            ...(issue.line !== undefined && {
+                                region: {
+                                    startLine: issue.line,
+                                    startColumn: issue.column,
+                                },
+                            }),
+                        },
+                        ...(issue.pointer !== undefined && {
+                            logicalLocations: [
+                                { fullyQualifiedName: issue.pointer },
+                            ],
+                        }),
+                    },
+                ],
+            })),
+        },
+    ],
+});
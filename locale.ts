@@ -0,0 +1,112 @@
+import type { HTTPStatus } from "./http-status";
+import type { StatusCode } from "./registry";
+import { de } from "./locales/de";
+import { es } from "./locales/es";
+import { fr } from "./locales/fr";
+
+/**
+ * Localized reason phrases, keyed by status code. Missing codes fall back to the next
+ * locale of the chain.
+ */
+export type LocalePack = {
+    readonly [Code in StatusCode]?: string;
+};
+
+/**
+ * Localized reason phrases covering every status code, as bundled with this library.
+ */
+export type CompleteLocalePack = {
+    readonly [Code in StatusCode]: string;
+};
+
+/**
+ * Options of {@link getStatusText}.
+ *
+ * @property fallback - Locales to try, in order, when none of the requested locales has a
+ * reason phrase for the status. The canonical English `statusText` is always the last resort.
+ */
+export type StatusTextOptions = {
+    readonly fallback?: string | readonly string[];
+};
+
+const packs = new Map<string, LocalePack>([
+    ["de", de],
+    ["es", es],
+    ["fr", fr],
+]);
+
+const normalize = (tag: string) =>
+    tag.trim().replace(/_/g, "-").toLowerCase();
+
+/**
+ * Expands locale tags into their lookup chain, from the most to the least specific
+ * (e.g. `"de-AT"` becomes `"de-at"`, then `"de"`).
+ */
+const expand = (tags: readonly string[]): string[] =>
+    tags.flatMap((tag) => {
+        const subtags = normalize(tag).split("-").filter(Boolean);
+
+        return subtags.map((_, index) =>
+            subtags.slice(0, subtags.length - index).join("-"),
+        );
+    });
+
+/**
+ * Registers a locale pack, or overrides some reason phrases of an existing one.
+ *
+ * @param tag - A BCP 47 language tag, e.g. `"it"` or `"pt-BR"`.
+ * @param pack - The reason phrases of the locale.
+ *
+ * @example
+ * ```
+ * registerLocale("it", { 404: "Non trovato" });
+ * registerLocale("de", { 418: "Ich bin ein Teekessel" });
+ * ```
+ */
+export const registerLocale = (tag: string, pack: LocalePack): void => {
+    const key = normalize(tag);
+    packs.set(key, Object.freeze({ ...packs.get(key), ...pack }));
+};
+
+/**
+ * Lists the tags of every registered locale, including the bundled `de`, `es` and `fr`.
+ */
+export const listLocales = (): string[] => [...packs.keys()];
+
+/**
+ * Returns the localized reason phrase of a status, for display purposes only. The
+ * `statusText` of the constants is left untouched, so the wire format never changes.
+ *
+ * Each requested locale is tried from its most to its least specific form, then the
+ * `fallback` locales, then the canonical English `statusText`.
+ *
+ * @param status - Any `HTTPStatus`.
+ * @param locale - One or more BCP 47 language tags, in order of preference.
+ * @param options - The fallback locales.
+ *
+ * @example
+ * ```
+ * getStatusText(NOT_FOUND, "de"); // "Nicht gefunden"
+ * getStatusText(NOT_FOUND, ["pt-BR", "es"]); // "No encontrado"
+ * getStatusText(NOT_FOUND, "ja"); // "Not Found"
+ * ```
+ */
+export const getStatusText = (
+    status: HTTPStatus,
+    locale: string | readonly string[],
+    options: StatusTextOptions = {},
+): string => {
+    const chain = expand([
+        ...[locale].flat(),
+        ...[options.fallback ?? []].flat(),
+    ]);
+
+    for (const tag of chain) {
+        const text = packs.get(tag)?.[status.status as StatusCode];
+        if (text !== undefined) {
+            return text;
+        }
+    }
+
+    return status.statusText;
+};
@@ -0,0 +1,70 @@
+import type { CompleteLocalePack } from "../locale";
+
+/**
+ * German reason phrases.
+ */
+export const de: CompleteLocalePack = Object.freeze({
+    100: "Weiter",
+    101: "Protokollwechsel",
+    102: "Verarbeitung",
+    103: "Frühe Hinweise",
+    200: "OK",
+    201: "Erstellt",
+    202: "Akzeptiert",
+    203: "Nicht autoritative Information",
+    204: "Kein Inhalt",
+    205: "Inhalt zurücksetzen",
+    206: "Teilinhalt",
+    207: "Mehrfachstatus",
+    208: "Bereits gemeldet",
+    226: "IM verwendet",
+    300: "Mehrfachauswahl",
+    301: "Dauerhaft verschoben",
+    302: "Gefunden",
+    303: "Siehe andere",
+    304: "Nicht geändert",
+    305: "Proxy verwenden",
+    306: "Ungenutzt",
+    307: "Temporäre Umleitung",
+    308: "Permanente Umleitung",
+    400: "Ungültige Anfrage",
+    401: "Nicht autorisiert",
+    402: "Zahlung erforderlich",
+    403: "Verboten",
+    404: "Nicht gefunden",
+    405: "Methode nicht erlaubt",
+    406: "Nicht akzeptabel",
+    407: "Proxy-Authentifizierung erforderlich",
+    408: "Zeitüberschreitung der Anfrage",
+    409: "Konflikt",
+    410: "Nicht mehr verfügbar",
+    411: "Länge erforderlich",
+    412: "Vorbedingung fehlgeschlagen",
+    413: "Inhalt zu groß",
+    414: "URI zu lang",
+    415: "Nicht unterstützter Medientyp",
+    416: "Bereich nicht erfüllbar",
+    417: "Erwartung fehlgeschlagen",
+    418: "Ich bin eine Teekanne",
+    421: "Fehlgeleitete Anfrage",
+    422: "Nicht verarbeitbarer Inhalt",
+    423: "Gesperrt",
+    424: "Fehlgeschlagene Abhängigkeit",
+    425: "Zu früh",
+    426: "Upgrade erforderlich",
+    428: "Vorbedingung erforderlich",
+    429: "Zu viele Anfragen",
+    431: "Header-Felder der Anfrage zu groß",
+    451: "Aus rechtlichen Gründen nicht verfügbar",
+    500: "Interner Serverfehler",
+    501: "Nicht implementiert",
+    502: "Fehlerhaftes Gateway",
+    503: "Dienst nicht verfügbar",
+    504: "Gateway-Zeitüberschreitung",
+    505: "HTTP-Version nicht unterstützt",
+    506: "Variante verhandelt ebenfalls",
+    507: "Unzureichender Speicher",
+    508: "Schleife erkannt",
+    510: "Nicht erweitert",
+    511: "Netzwerkauthentifizierung erforderlich",
+});
@@ -0,0 +1,229 @@
+import type { HTTPStatus } from "./http-status";
+import {
+    STATUS_BY_CODE,
+    type KnownHTTPStatus,
+    type StatusCode,
+} from "./registry";
+
+/**
+ * HTTP extensions that define status codes outside of the core specification.
+ *
+ * - `WebDAV`: [RFC 4918](https://datatracker.ietf.org/doc/html/rfc4918) and its companions.
+ * - `Delta encoding`: [RFC 3229](https://datatracker.ietf.org/doc/html/rfc3229).
+ * - `RFC 2774`: [An HTTP Extension Framework](https://datatracker.ietf.org/doc/html/rfc2774).
+ */
+export type StatusExtension = "WebDAV" | "Delta encoding" | "RFC 2774";
+
+/**
+ * Machine-readable information about a status code.
+ *
+ * @property spec - The RFC number, section and URL where the status code is defined.
+ * @property mdn - The MDN page documenting the status code.
+ * @property deprecated - Whether the status code is deprecated (e.g. `102 Processing`).
+ * @property experimental - Whether the status code is experimental (e.g. `425 Too Early`).
+ * @property unused - Whether the status code is reserved but no longer used (`306`).
+ * @property extension - The HTTP extension defining the status code, if any.
+ */
+export type StatusMetadata = {
+    readonly spec: {
+        readonly rfc: number;
+        readonly section: string;
+        readonly url: string;
+    };
+    readonly mdn: string;
+    readonly deprecated: boolean;
+    readonly experimental: boolean;
+    readonly unused: boolean;
+    readonly extension?: StatusExtension;
+};
+
+/**
+ * A status constant together with its metadata, as returned by {@link findStatuses}.
+ */
+export type StatusWithMetadata = KnownHTTPStatus & {
+    readonly metadata: StatusMetadata;
+};
+
+type Flags = {
+    readonly deprecated?: boolean;
+    readonly experimental?: boolean;
+    readonly unused?: boolean;
+    readonly extension?: StatusExtension;
+    readonly mdn?: string;
+};
+
+const MDN = "https://developer.mozilla.org/en-US/docs/Web/HTTP/Status";
+
+/**
+ * Helper function to create an immutable metadata entry.
+ *
+ * @param code - The status code, used to build the default MDN URL.
+ * @param rfc - The number of the RFC defining the status code.
+ * @param section - The section of the RFC defining the status code.
+ * @param flags - Optional deprecation, experimental, unused and extension flags.
+ */
+const NewStatusMetadata = (
+    code: StatusCode,
+    rfc: number,
+    section: string,
+    flags: Flags = {},
+): StatusMetadata =>
+    Object.freeze({
+        spec: Object.freeze({
+            rfc,
+            section,
+            url: `https://www.rfc-editor.org/rfc/rfc${rfc}#section-${section}`,
+        }),
+        mdn: flags.mdn ?? `${MDN}/${code}`,
+        deprecated: flags.deprecated ?? false,
+        experimental: flags.experimental ?? false,
+        unused: flags.unused ?? false,
+        ...(flags.extension && { extension: flags.extension }),
+    });
+
+/**
+ * Frozen metadata of every status constant, keyed by its numeric code.
+ *
+ * @example
+ * ```
+ * STATUS_METADATA[423];
+ * // {
+ * //     spec: { rfc: 4918, section: "11.3", url: "https://www.rfc-editor.org/rfc/rfc4918#section-11.3" },
+ * //     mdn: "https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/423",
+ * //     deprecated: false,
+ * //     experimental: false,
+ * //     unused: false,
+ * //     extension: "WebDAV",
+ * // }
+ * ```
+ */
+export const STATUS_METADATA: {
+    readonly [Code in StatusCode]: StatusMetadata;
+} = Object.freeze({
+    100: NewStatusMetadata(100, 9110, "15.2.1"),
+    101: NewStatusMetadata(101, 9110, "15.2.2"),
+    102: NewStatusMetadata(102, 2518, "10.1", {
+        deprecated: true,
+        extension: "WebDAV",
+    }),
+    103: NewStatusMetadata(103, 8297, "2"),
+    200: NewStatusMetadata(200, 9110, "15.3.1"),
+    201: NewStatusMetadata(201, 9110, "15.3.2"),
+    202: NewStatusMetadata(202, 9110, "15.3.3"),
+    203: NewStatusMetadata(203, 9110, "15.3.4"),
+    204: NewStatusMetadata(204, 9110, "15.3.5"),
+    205: NewStatusMetadata(205, 9110, "15.3.6"),
+    206: NewStatusMetadata(206, 9110, "15.3.7"),
+    207: NewStatusMetadata(207, 4918, "11.1", { extension: "WebDAV" }),
+    208: NewStatusMetadata(208, 5842, "7.1", { extension: "WebDAV" }),
+    226: NewStatusMetadata(226, 3229, "10.4.1", {
+        extension: "Delta encoding",
+    }),
+    300: NewStatusMetadata(300, 9110, "15.4.1"),
+    301: NewStatusMetadata(301, 9110, "15.4.2"),
+    302: NewStatusMetadata(302, 9110, "15.4.3"),
+    303: NewStatusMetadata(303, 9110, "15.4.4"),
+    304: NewStatusMetadata(304, 9110, "15.4.5"),
+    305: NewStatusMetadata(305, 9110, "15.4.6", {
+        deprecated: true,
+        mdn: `${MDN}#305_use_proxy`,
+    }),
+    306: NewStatusMetadata(306, 9110, "15.4.7", {
+        unused: true,
+        mdn: `${MDN}#306_unused`,
+    }),
+    307: NewStatusMetadata(307, 9110, "15.4.8"),
+    308: NewStatusMetadata(308, 9110, "15.4.9"),
+    400: NewStatusMetadata(400, 9110, "15.5.1"),
+    401: NewStatusMetadata(401, 9110, "15.5.2"),
+    402: NewStatusMetadata(402, 9110, "15.5.3"),
+    403: NewStatusMetadata(403, 9110, "15.5.4"),
+    404: NewStatusMetadata(404, 9110, "15.5.5"),
+    405: NewStatusMetadata(405, 9110, "15.5.6"),
+    406: NewStatusMetadata(406, 9110, "15.5.7"),
+    407: NewStatusMetadata(407, 9110, "15.5.8"),
+    408: NewStatusMetadata(408, 9110, "15.5.9"),
+    409: NewStatusMetadata(409, 9110, "15.5.10"),
+    410: NewStatusMetadata(410, 9110, "15.5.11"),
+    411: NewStatusMetadata(411, 9110, "15.5.12"),
+    412: NewStatusMetadata(412, 9110, "15.5.13"),
+    413: NewStatusMetadata(413, 9110, "15.5.14"),
+    414: NewStatusMetadata(414, 9110, "15.5.15"),
+    415: NewStatusMetadata(415, 9110, "15.5.16"),
+    416: NewStatusMetadata(416, 9110, "15.5.17"),
+    417: NewStatusMetadata(417, 9110, "15.5.18"),
+    418: NewStatusMetadata(418, 9110, "15.5.19"),
+    421: NewStatusMetadata(421, 9110, "15.5.20"),
+    422: NewStatusMetadata(422, 9110, "15.5.21", { extension: "WebDAV" }),
+    423: NewStatusMetadata(423, 4918, "11.3", { extension: "WebDAV" }),
+    424: NewStatusMetadata(424, 4918, "11.4", { extension: "WebDAV" }),
+    425: NewStatusMetadata(425, 8470, "5.2", { experimental: true }),
+    426: NewStatusMetadata(426, 9110, "15.5.22"),
+    428: NewStatusMetadata(428, 6585, "3"),
+    429: NewStatusMetadata(429, 6585, "4"),
+    431: NewStatusMetadata(431, 6585, "5"),
+    451: NewStatusMetadata(451, 7725, "3"),
+    500: NewStatusMetadata(500, 9110, "15.6.1"),
+    501: NewStatusMetadata(501, 9110, "15.6.2"),
+    502: NewStatusMetadata(502, 9110, "15.6.3"),
+    503: NewStatusMetadata(503, 9110, "15.6.4"),
+    504: NewStatusMetadata(504, 9110, "15.6.5"),
+    505: NewStatusMetadata(505, 9110, "15.6.6"),
+    506: NewStatusMetadata(506, 2295, "8.1"),
+    507: NewStatusMetadata(507, 4918, "11.5", { extension: "WebDAV" }),
+    508: NewStatusMetadata(508, 5842, "7.2", { extension: "WebDAV" }),
+    510: NewStatusMetadata(510, 2774, "7", { extension: "RFC 2774" }),
+    511: NewStatusMetadata(511, 6585, "6"),
+});
+
+/**
+ * Returns the metadata of a status code or constant.
+ *
+ * @param status - A status code or any `HTTPStatus`.
+ *
+ * @returns The metadata, or `undefined` when the status code is not defined by this library.
+ *
+ * @example
+ * ```
+ * getMetadata(PROCESSING)?.deprecated; // true
+ * ```
+ */
+export const getMetadata = (
+    status: number | HTTPStatus,
+): StatusMetadata | undefined => {
+    const code = typeof status === "number" ? status : status.status;
+
+    return Object.prototype.hasOwnProperty.call(STATUS_METADATA, code)
+        ? STATUS_METADATA[code as StatusCode]
+        : undefined;
+};
+
+/**
+ * Lists the status constants whose metadata matches a predicate, in ascending code order.
+ *
+ * @param predicate - A function receiving the metadata of each status.
+ *
+ * @returns The matching constants, each with its `metadata` attached.
+ *
+ * @example
+ * ```
+ * findStatuses((metadata) => metadata.deprecated).map(({ status }) => status);
+ * // [102, 305]
+ *
+ * findStatuses((metadata) => metadata.extension === "WebDAV");
+ * ```
+ */
+export const findStatuses = (
+    predicate: (
+        metadata: StatusMetadata,
+        status: KnownHTTPStatus,
+    ) => boolean,
+): StatusWithMetadata[] =>
+    (Object.values(STATUS_BY_CODE) as KnownHTTPStatus[])
+        .filter((status) =>
+            predicate(STATUS_METADATA[status.status], status),
+        )
+        .map((status) => ({
+            ...status,
+            metadata: STATUS_METADATA[status.status],
+        }));
@@ -0,0 +1,363 @@
+import type { HTTPStatus } from "./http-status";
+import {
+    fromCode,
+    nameOf,
+    type KnownHTTPStatus,
+    type StatusName,
+    type UnknownHTTPStatus,
+} from "./registry";
+import { SYSTEM_CLOCK, type RetryClock } from "./retry";
+import {
+    isClientError,
+    isServerError,
+    type StatusClassDigit,
+} from "./status-class";
+
+/**
+ * Source of time used by the metrics collector.
+ */
+export type MetricsClock = Pick<RetryClock, "now">;
+
+/**
+ * The class of a status as used in dashboards, e.g. `"5xx"`.
+ */
+export type StatusClassLabel = `${StatusClassDigit}xx`;
+
+/**
+ * Options of {@link createMetrics}.
+ *
+ * @property slo - The availability objective, as the ratio of responses that must not
+ * fail. Defaults to `0.999`.
+ * @property windows - The windows of the error and burn rates, in seconds. Defaults to
+ * `[300, 3600]`, the short and long windows of a fast-burn alert.
+ * @property resolution - The granularity of the windows, in seconds. Defaults to `10`.
+ * @property isFailure - Whether a response counts against the objective. Defaults to server
+ * errors (`5XX`).
+ * @property prefix - The prefix of the Prometheus metric names. Defaults to `"http_server"`.
+ * @property clock - The clock. Defaults to {@link SYSTEM_CLOCK}.
+ */
+export type MetricsOptions = {
+    readonly slo?: number;
+    readonly windows?: readonly number[];
+    readonly resolution?: number;
+    readonly isFailure?: (
+        status: KnownHTTPStatus | UnknownHTTPStatus,
+    ) => boolean;
+    readonly prefix?: string;
+    readonly clock?: MetricsClock;
+};
+
+/**
+ * A response to record.
+ *
+ * @property status - The status code or constant of the response.
+ * @property route - The route template, e.g. `"/users/:id"`. Use templates rather than paths
+ * to keep the number of series bounded.
+ * @property method - The request method.
+ */
+export type ResponseRecord = {
+    readonly status: number | HTTPStatus;
+    readonly route?: string;
+    readonly method?: string;
+};
+
+/**
+ * The number of responses recorded for a route, method and status, since the collector was
+ * created or reset.
+ *
+ * @property name - The name of the status constant, e.g. `"SERVICE_UNAVAILABLE"`, or
+ * `undefined` for non-standard codes.
+ * @property class - The class of the status, e.g. `"5xx"`.
+ */
+export type StatusSeries = {
+    readonly route: string;
+    readonly method: string;
+    readonly status: KnownHTTPStatus | UnknownHTTPStatus;
+    readonly name: StatusName | undefined;
+    readonly class: StatusClassLabel;
+    readonly count: number;
+};
+
+/**
+ * The error and burn rates over a window.
+ *
+ * @property window - The window, in seconds.
+ * @property total - The number of responses in the window.
+ * @property failures - The number of failed responses in the window.
+ * @property errorRate - The ratio of failed responses, `0` without responses.
+ * @property burnRate - How fast the error budget is consumed: `1` consumes exactly the
+ * budget over the SLO period, `14.4` consumes 2% of a 30-day budget in an hour.
+ */
+export type WindowStats = {
+    readonly window: number;
+    readonly total: number;
+    readonly failures: number;
+    readonly errorRate: number;
+    readonly burnRate: number;
+};
+
+/**
+ * A metrics collector, as created by {@link createMetrics}.
+ */
+export type MetricsCollector = {
+    /**
+     * Records a response.
+     *
+     * @throws {RangeError} When the code is not an integer between `100` and `599`.
+     */
+    readonly record: (response: ResponseRecord) => void;
+
+    /**
+     * Returns the response counts by route, method and status, e.g. for structured logs.
+     */
+    readonly series: () => StatusSeries[];
+
+    /**
+     * Returns the error and burn rates of every window.
+     */
+    readonly windows: () => WindowStats[];
+
+    /**
+     * Formats the counts and rates in the Prometheus text exposition format.
+     */
+    readonly toPrometheus: () => string;
+
+    /**
+     * Clears every count and window.
+     */
+    readonly reset: () => void;
+};
+
+/**
+ * Returns the class label of a status, e.g. `"4xx"` for `404`.
+ *
+ * @param status - A status code or any `HTTPStatus`.
+ *
+ * @throws {RangeError} When the code is not an integer between `100` and `599`.
+ */
+export const statusClassLabel = (
+    status: number | HTTPStatus,
+): StatusClassLabel => {
+    const code = typeof status === "number" ? status : status.status;
+    if (!Number.isInteger(code) || code < 100 || code > 599) {
+        throw new RangeError(`Invalid status code: ${code}`);
+    }
+
+    return `${Math.floor(code / 100)}xx` as StatusClassLabel;
+};
+
+/**
+ * Options of {@link otelAttributes}.
+ *
+ * @property kind - Whether the response was sent (`"server"`) or received (`"client"`).
+ * Client spans treat `4XX` as errors, server spans only `5XX`. Defaults to `"server"`.
+ * @property route - The route template.
+ * @property method - The request method.
+ */
+export type OTelAttributesOptions = {
+    readonly kind?: "server" | "client";
+    readonly route?: string;
+    readonly method?: string;
+};
+
+/**
+ * Builds the [OpenTelemetry HTTP attributes](https://opentelemetry.io/docs/specs/semconv/http/http-spans/)
+ * of a response, for spans, metrics and logs.
+ *
+ * @param status - A status code or any `HTTPStatus`.
+ * @param options - The span kind, the route and the method.
+ *
+ * @returns `http.response.status_code`, plus `error.type` set to the code when the status is
+ * an error for this kind, and `http.route` and `http.request.method` when given.
+ *
+ * @example
+ * ```
+ * otelAttributes(SERVICE_UNAVAILABLE, { route: "/users/:id" });
+ * // {
+ * //     "http.response.status_code": 503,
+ * //     "error.type": "503",
+ * //     "http.route": "/users/:id",
+ * // }
+ * ```
+ */
+export const otelAttributes = (
+    status: number | HTTPStatus,
+    options: OTelAttributesOptions = {},
+): { readonly [attribute: string]: string | number } => {
+    const code = typeof status === "number" ? status : status.status;
+    const failed =
+        (options.kind ?? "server") === "server"
+            ? isServerError(code)
+            : isClientError(code) || isServerError(code);
+
+    return Object.freeze({
+        "http.response.status_code": code,
+        ...(failed && { "error.type": String(code) }),
+        ...(options.route !== undefined && { "http.route": options.route }),
+        ...(options.method !== undefined && {
+            "http.request.method": options.method,
+        }),
+    });
+};
+
+/**
+ * Escapes a Prometheus label value.
+ */
+const label = (value: string) =>
+    `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+
+const formatWindow = (seconds: number) =>
+    seconds % 3600 === 0
+        ? `${seconds / 3600}h`
+        : seconds % 60 === 0
+          ? `${seconds / 60}m`
+          : `${seconds}s`;
+
+/**
+ * Creates an in-process collector grouping responses by status constant, class and route,
+ * computing error and SLO burn rates over sliding windows and exporting them to Prometheus.
+ *
+ * @param options - The objective, windows, failure predicate, metric prefix and clock.
+ *
+ * @throws {RangeError} When the objective is not between `0` and `1`, or a window or the
+ * resolution is not positive.
+ *
+ * @example
+ * ```
+ * const metrics = createMetrics({ slo: 0.995 });
+ *
+ * metrics.record({ status: SERVICE_UNAVAILABLE, route: "/users/:id", method: "GET" });
+ * metrics.windows(); // [{ window: 300, total: 1, failures: 1, errorRate: 1, burnRate: 200 }, ...]
+ *
+ * app.get("/metrics", (req, res) => res.type("text/plain").send(metrics.toPrometheus()));
+ * // http_server_responses_total{route="/users/:id",method="GET",status_code="503",status_name="SERVICE_UNAVAILABLE",status_class="5xx"} 1
+ * ```
+ */
+export const createMetrics = (
+    options: MetricsOptions = {},
+): MetricsCollector => {
+    const {
+        slo = 0.999,
+        windows = [300, 3600],
+        resolution = 10,
+        isFailure = isServerError,
+        prefix = "http_server",
+        clock = SYSTEM_CLOCK,
+    } = options;
+    if (!(slo > 0 && slo < 1)) {
+        throw new RangeError("The objective must be between 0 and 1.");
+    }
+    if (!(resolution > 0) || !windows.every((window) => window > 0)) {
+        throw new RangeError(
+            "The windows and their resolution must be positive.",
+        );
+    }
+
+    const counts = new Map<string, StatusSeries>();
+    // Totals and failures per time slot of `resolution` seconds. The keys are not
+    // ordered by time, since the clock may go backwards.
+    const slots = new Map<number, { total: number; failures: number }>();
+    const span = Math.ceil(Math.max(0, ...windows) / resolution);
+
+    const slotOf = (now: number) => Math.floor(now / (resolution * 1000));
+
+    const prune = (current: number) => {
+        for (const slot of slots.keys()) {
+            if (slot <= current - span) {
+                slots.delete(slot);
+            }
+        }
+    };
+
+    const windowStats = (): WindowStats[] => {
+        const current = slotOf(clock.now());
+        prune(current);
+
+        return windows.map((window) => {
+            const first = current - Math.ceil(window / resolution);
+            let total = 0;
+            let failures = 0;
+            for (const [slot, slotCounts] of slots) {
+                if (slot > first && slot <= current) {
+                    total += slotCounts.total;
+                    failures += slotCounts.failures;
+                }
+            }
+            const errorRate = total === 0 ? 0 : failures / total;
+
+            return Object.freeze({
+                window,
+                total,
+                failures,
+                errorRate,
+                // Rounded to hide floating-point noise, e.g. 199.99999999999983.
+                burnRate: Math.round((errorRate / (1 - slo)) * 1e9) / 1e9,
+            });
+        });
+    };
+
+    return Object.freeze({
+        record: (response: ResponseRecord) => {
+            const status = fromCode(
+                typeof response.status === "number"
+                    ? response.status
+                    : response.status.status,
+            );
+            const route = response.route ?? "";
+            const method = response.method?.toUpperCase() ?? "";
+            const key = JSON.stringify([route, method, status.status]);
+            const series = counts.get(key);
+            counts.set(
+                key,
+                Object.freeze({
+                    route,
+                    method,
+                    status,
+                    name: nameOf(status),
+                    class: statusClassLabel(status),
+                    count: (series?.count ?? 0) + 1,
+                }),
+            );
+
+            const current = slotOf(clock.now());
+            prune(current);
+            const slot = slots.get(current) ?? { total: 0, failures: 0 };
+            slot.total++;
+            slot.failures += isFailure(status) ? 1 : 0;
+            slots.set(current, slot);
+        },
+        series: () => [...counts.values()],
+        windows: windowStats,
+        toPrometheus: () => {
+            const lines = [
+                `# HELP ${prefix}_responses_total Responses by route, method and status.`,
+                `# TYPE ${prefix}_responses_total counter`,
+                ...[...counts.values()].map(
+                    (series) =>
+                        `${prefix}_responses_total{route=${label(series.route)},method=${label(series.method)},status_code=${label(String(series.status.status))},status_name=${label(series.name ?? "")},status_class=${label(series.class)}} ${series.count}`,
+                ),
+            ];
+            const stats = windowStats();
+            lines.push(
+                `# HELP ${prefix}_error_ratio Ratio of failed responses over a window.`,
+                `# TYPE ${prefix}_error_ratio gauge`,
+                ...stats.map(
+                    (stat) =>
+                        `${prefix}_error_ratio{window=${label(formatWindow(stat.window))}} ${stat.errorRate}`,
+                ),
+                `# HELP ${prefix}_slo_burn_rate Error budget burn rate over a window, for an objective of ${slo}.`,
+                `# TYPE ${prefix}_slo_burn_rate gauge`,
+                ...stats.map(
+                    (stat) =>
+                        `${prefix}_slo_burn_rate{window=${label(formatWindow(stat.window))}} ${stat.burnRate}`,
+                ),
+            );
+
+            return `${lines.join("\n")}\n`;
+        },
+        reset: () => {
+            counts.clear();
+            slots.clear();
+        },
+    });
+};
@@ -0,0 +1,433 @@
+import { NOT_ACCEPTABLE, UNSUPPORTED_MEDIA_TYPE } from "./http-status";
+
+/**
+ * An element of an `Accept`-like header list.
+ *
+ * @property value - The media range, language range or coding, lowercased.
+ * @property params - The parameters other than `q`, with lowercased names.
+ * @property q - The quality value, from `0` to `1`.
+ */
+export type AcceptElement = {
+    readonly value: string;
+    readonly params: { readonly [name: string]: string };
+    readonly q: number;
+};
+
+/**
+ * Result of a negotiation: the chosen variant, or the status to answer with and the headers
+ * to send along. Both carry the headers, such as `Vary`, a response should include.
+ */
+export type NegotiationResult<Value, Status> =
+    | {
+          readonly ok: true;
+          readonly value: Value;
+          readonly headers: Headers;
+      }
+    | {
+          readonly ok: false;
+          readonly status: Status;
+          readonly headers: Headers;
+      };
+
+/**
+ * Options of the negotiation functions.
+ *
+ * @property strict - Whether to answer `NOT_ACCEPTABLE` when no variant is acceptable. When
+ * `false`, the first available variant is chosen instead, which RFC 9110 also allows.
+ * Defaults to `true`.
+ */
+export type NegotiationOptions = {
+    readonly strict?: boolean;
+};
+
+/**
+ * Splits a header value on commas and semicolons outside of quoted strings.
+ */
+const split = (value: string, separator: "," | ";"): string[] => {
+    const parts: string[] = [];
+    let current = "";
+    let quoted = false;
+    for (let index = 0; index < value.length; index++) {
+        const char = value[index];
+        if (char === '"') {
+            quoted = !quoted;
+        } else if (char === "\\" && quoted) {
+            current += char + (value[++index] ?? "");
+            continue;
+        } else if (char === separator && !quoted) {
+            parts.push(current.trim());
+            current = "";
+            continue;
+        }
+        current += char;
+    }
+    parts.push(current.trim());
+
+    return parts.filter(Boolean);
+};
+
+const unquote = (value: string) =>
+    value.startsWith('"') && value.endsWith('"')
+        ? value.slice(1, -1).replace(/\\(.)/g, "$1")
+        : value;
+
+const parseElement = (element: string) => {
+    const [value, ...rest] = split(element, ";");
+    const params: { [name: string]: string } = {};
+    let q = 1;
+    for (const param of rest) {
+        const equals = param.indexOf("=");
+        const name = (equals === -1 ? param : param.slice(0, equals))
+            .trim()
+            .toLowerCase();
+        const raw =
+            equals === -1 ? "" : unquote(param.slice(equals + 1).trim());
+        if (name === "q") {
+            if (!/^(0(\.\d{0,3})?|1(\.0{0,3})?)$/.test(raw)) {
+                return undefined;
+            }
+            q = Number(raw);
+        } else {
+            params[name] = raw;
+        }
+    }
+
+    return { value: value.toLowerCase(), params, q };
+};
+
+/**
+ * Parses an `Accept`, `Accept-Language`, `Accept-Encoding` or `Accept-Charset` header into
+ * its elements, ordered by decreasing quality. Elements with an invalid quality value are
+ * dropped.
+ *
+ * @param value - The header value.
+ *
+ * @example
+ * ```
+ * parseAccept("text/html;level=1, application/json;q=0.9, *\/*;q=0.1");
+ * // [
+ * //     { value: "text/html", params: { level: "1" }, q: 1 },
+ * //     { value: "application/json", params: {}, q: 0.9 },
+ * //     { value: "*\/*", params: {}, q: 0.1 },
+ * // ]
+ * ```
+ */
+export const parseAccept = (value: string): AcceptElement[] =>
+    split(value, ",")
+        .map(parseElement)
+        .filter((element) => element !== undefined)
+        .sort((a, b) => b.q - a.q);
+
+/**
+ * Picks the available variant with the highest quality. The quality of a variant is the one
+ * of the most specific element matching it; ties go to the earliest available variant.
+ */
+const choose = <Variant extends string>(
+    elements: readonly AcceptElement[],
+    available: readonly Variant[],
+    specificity: (element: AcceptElement, variant: Variant) => number,
+): Variant | undefined => {
+    let best: { variant: Variant; q: number } | undefined;
+    for (const variant of available) {
+        let match: { element: AcceptElement; score: number } | undefined;
+        for (const element of elements) {
+            const score = specificity(element, variant);
+            if (score > 0 && (match === undefined || score > match.score)) {
+                match = { element, score };
+            }
+        }
+
+        if (
+            match !== undefined &&
+            match.element.q > 0 &&
+            (best === undefined || match.element.q > best.q)
+        ) {
+            best = { variant, q: match.element.q };
+        }
+    }
+
+    return best?.variant;
+};
+
+const negotiate = <Variant extends string>(
+    header: string | null,
+    vary: string,
+    available: readonly Variant[],
+    specificity: (element: AcceptElement, variant: Variant) => number,
+    options: NegotiationOptions,
+    fallback?: Variant,
+): NegotiationResult<Variant, typeof NOT_ACCEPTABLE> => {
+    const headers = new Headers({ Vary: vary });
+    // An absent header accepts anything, an empty one only the fallback.
+    const value =
+        header === null
+            ? available[0]
+            : (choose(parseAccept(header), available, specificity) ??
+              fallback);
+
+    if (value !== undefined) {
+        return { ok: true, value, headers };
+    }
+
+    if (options.strict === false && available.length > 0) {
+        return { ok: true, value: available[0], headers };
+    }
+
+    return { ok: false, status: NOT_ACCEPTABLE, headers };
+};
+
+/**
+ * Scores how specifically a media range matches a media type: `3` plus the number of
+ * matching parameters for `type/subtype`, `2` for `type/*`, `1` for `*\/*` and `0` when it
+ * does not match.
+ */
+const mediaSpecificity = (
+    range: AcceptElement,
+    variant: string,
+): number => {
+    const media = parseElement(variant);
+    if (media === undefined) {
+        return 0;
+    }
+
+    const [type, subtype] = media.value.split("/");
+    const [rangeType, rangeSubtype] = range.value.split("/");
+    const names = Object.keys(range.params);
+    if (
+        names.some(
+            (name) =>
+                media.params[name]?.toLowerCase() !==
+                range.params[name].toLowerCase(),
+        )
+    ) {
+        return 0;
+    }
+
+    if (rangeType === "*" && rangeSubtype === "*") {
+        return 1;
+    }
+
+    if (rangeType !== type) {
+        return 0;
+    }
+
+    if (rangeSubtype === "*") {
+        return 2;
+    }
+
+    return rangeSubtype === subtype ? 3 + names.length : 0;
+};
+
+/**
+ * Chooses a media type from an [`Accept`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Accept)
+ * header ([RFC 9110 §12.5.1](https://httpwg.org/specs/rfc9110.html#field.accept)), with
+ * wildcards, media type parameters and quality values.
+ *
+ * @param accept - The `Accept` header, or `null` when absent (anything is acceptable). An
+ * empty header accepts no media type.
+ * @param available - The media types the server can produce, by order of preference.
+ * @param options - Whether to answer `NOT_ACCEPTABLE` when nothing matches.
+ *
+ * @example
+ * ```
+ * const result = negotiateMediaType(request.headers.get("Accept"), [
+ *     "application/json",
+ *     "text/html",
+ * ]);
+ * if (!result.ok) return new Response(null, { ...result.status, headers: result.headers });
+ * result.value; // "text/html" for "Accept: text/*"
+ * ```
+ */
+export const negotiateMediaType = <MediaType extends string>(
+    accept: string | null,
+    available: readonly MediaType[],
+    options: NegotiationOptions = {},
+): NegotiationResult<MediaType, typeof NOT_ACCEPTABLE> =>
+    negotiate(accept, "Accept", available, mediaSpecificity, options);
+
+/**
+ * Chooses a language from an [`Accept-Language`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Accept-Language)
+ * header, using the basic filtering of [RFC 4647 §3.3.1](https://www.rfc-editor.org/rfc/rfc4647#section-3.3.1):
+ * `en` matches `en` and `en-US`, `*` matches any language.
+ *
+ * @param acceptLanguage - The `Accept-Language` header, or `null` when absent (any language
+ * is acceptable). An empty header accepts no language.
+ * @param available - The language tags the server can produce, by order of preference.
+ * @param options - Whether to answer `NOT_ACCEPTABLE` when nothing matches.
+ *
+ * @example
+ * ```
+ * negotiateLanguage("fr-CH, fr;q=0.9, en;q=0.8", ["en", "fr"]).value; // "fr"
+ * ```
+ */
+export const negotiateLanguage = <Language extends string>(
+    acceptLanguage: string | null,
+    available: readonly Language[],
+    options: NegotiationOptions = {},
+): NegotiationResult<Language, typeof NOT_ACCEPTABLE> =>
+    negotiate(
+        acceptLanguage,
+        "Accept-Language",
+        available,
+        (range, language) => {
+            const tag = language.toLowerCase();
+            if (range.value === "*") {
+                return 1;
+            }
+
+            return tag === range.value || tag.startsWith(`${range.value}-`)
+                ? 1 + range.value.split("-").length
+                : 0;
+        },
+        options,
+    );
+
+/**
+ * Chooses a content coding from an [`Accept-Encoding`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Accept-Encoding)
+ * header ([RFC 9110 §12.5.3](https://httpwg.org/specs/rfc9110.html#field.accept-encoding)).
+ *
+ * `identity` is acceptable unless excluded by `identity;q=0` or `*;q=0`, so it is chosen when
+ * none of the available codings is acceptable. An empty header accepts `identity` only.
+ *
+ * @param acceptEncoding - The `Accept-Encoding` header, or `null` when absent (any coding is
+ * acceptable).
+ * @param available - The codings the server can apply, by order of preference.
+ * @param options - Whether to answer `NOT_ACCEPTABLE` when nothing, not even `identity`,
+ * is acceptable.
+ *
+ * @example
+ * ```
+ * negotiateEncoding("gzip;q=0.8, br", ["br", "gzip"]).value; // "br"
+ * negotiateEncoding("deflate", ["br", "gzip"]).value; // "identity"
+ * negotiateEncoding("", ["br", "gzip"]).value; // "identity"
+ * negotiateEncoding(null, ["br", "gzip"]).value; // "br"
+ * ```
+ */
+export const negotiateEncoding = <Encoding extends string>(
+    acceptEncoding: string | null,
+    available: readonly Encoding[],
+    options: NegotiationOptions = {},
+): NegotiationResult<Encoding | "identity", typeof NOT_ACCEPTABLE> => {
+    const specificity = (range: AcceptElement, coding: string) =>
+        range.value === coding.toLowerCase()
+            ? 2
+            : range.value === "*"
+              ? 1
+              : 0;
+    const elements =
+        acceptEncoding === null ? [] : parseAccept(acceptEncoding);
+    const identity =
+        elements.length === 0 ||
+        choose(elements, ["identity"], specificity) !== undefined ||
+        !elements.some(
+            (element) =>
+                element.value === "identity" || element.value === "*",
+        );
+
+    return negotiate<Encoding | "identity">(
+        acceptEncoding,
+        "Accept-Encoding",
+        available,
+        specificity,
+        options,
+        identity ? "identity" : undefined,
+    );
+};
+
+/**
+ * Checks the `Content-Type` of a request against the media types a handler consumes
+ * ([RFC 9110 §15.5.16](https://httpwg.org/specs/rfc9110.html#status.415)).
+ *
+ * On mismatch, the result carries `UNSUPPORTED_MEDIA_TYPE` and an `Accept` header listing
+ * the supported types, or `Accept-Patch` for `PATCH` requests
+ * ([RFC 5789 §3.1](https://www.rfc-editor.org/rfc/rfc5789#section-3.1)).
+ *
+ * @param request - The method and headers of the request, such as a Fetch `Request`.
+ * @param supported - The supported media types or ranges, e.g. `"application/json"` or
+ * `"image/*"`.
+ *
+ * @returns The supported media type or range that matched.
+ *
+ * @example
+ * ```
+ * checkContentType(request, ["application/json", "application/*+json"]);
+ * ```
+ */
+export const checkContentType = <MediaType extends string>(
+    request: { readonly method?: string; readonly headers: HeadersInit },
+    supported: readonly MediaType[],
+): NegotiationResult<MediaType, typeof UNSUPPORTED_MEDIA_TYPE> => {
+    const contentType = new Headers(request.headers).get("Content-Type");
+    const media =
+        contentType === null ? undefined : parseElement(contentType);
+    const match =
+        media === undefined
+            ? undefined
+            : supported.find((type) => {
+                  const range = parseElement(type);
+                  if (range === undefined) {
+                      return false;
+                  }
+
+                  // Structured syntax suffixes, e.g. "application/*+json".
+                  const [rangeType, rangeSubtype] = range.value.split("/");
+                  const [mediaType, mediaSubtype = ""] =
+                      media.value.split("/");
+                  if (rangeSubtype?.startsWith("*+")) {
+                      return (
+                          rangeType === mediaType &&
+                          mediaSubtype.endsWith(rangeSubtype.slice(1))
+                      );
+                  }
+
+                  return mediaSpecificity(range, contentType!) > 0;
+              });
+
+    if (match !== undefined) {
+        return { ok: true, value: match, headers: new Headers() };
+    }
+
+    const header =
+        request.method?.toUpperCase() === "PATCH"
+            ? "Accept-Patch"
+            : "Accept";
+
+    return {
+        ok: false,
+        status: UNSUPPORTED_MEDIA_TYPE,
+        headers: new Headers({ [header]: supported.join(", ") }),
+    };
+};
+
+/**
+ * Wraps a Fetch handler so that requests whose `Content-Type` is not supported are answered
+ * with `415 Unsupported Media Type` before reaching it.
+ *
+ * @param supported - The supported media types or ranges.
+ * @param handler - The handler, receiving the request first.
+ *
+ * @example
+ * ```
+ * export const POST = consumes(["application/json"], async (request: Request) => {
+ *     const body = await request.json();
+ *     // ...
+ * });
+ * ```
+ */
+export const consumes =
+    <Args extends [Request, ...unknown[]]>(
+        supported: readonly string[],
+        handler: (...args: Args) => Response | Promise<Response>,
+    ) =>
+    async (...args: Args): Promise<Response> => {
+        const result = checkContentType(args[0], supported);
+        if (!result.ok) {
+            return new Response(null, {
+                headers: result.headers,
+                status: result.status.status,
+                statusText: result.status.statusText,
+            });
+        }
+
+        return handler(...args);
+    };
@@ -0,0 +1,429 @@
+import type { HTTPStatus } from "./http-status";
+import { getMetadata } from "./metadata";
+import { ABOUT_BLANK, PROBLEM_JSON } from "./problem-details";
+import { fromCode, isKnownStatus, type StatusCode } from "./registry";
+import {
+    allowsBody,
+    RECOMMENDED_HEADERS,
+    REQUIRED_HEADERS,
+} from "./responses";
+import { isError } from "./status-class";
+
+/**
+ * A [JSON Schema](https://spec.openapis.org/oas/v3.1.0#schema-object), or a `$ref` to one.
+ */
+export type SchemaObject = {
+    readonly [keyword: string]: unknown;
+};
+
+/**
+ * An OpenAPI 3.1 [Header Object](https://spec.openapis.org/oas/v3.1.0#header-object).
+ */
+export type OpenAPIHeader = {
+    readonly description?: string;
+    readonly required?: boolean;
+    readonly schema: SchemaObject;
+};
+
+/**
+ * An OpenAPI 3.1 [Response Object](https://spec.openapis.org/oas/v3.1.0#response-object).
+ */
+export type OpenAPIResponse = {
+    readonly description: string;
+    readonly headers?: { readonly [name: string]: OpenAPIHeader };
+    readonly content?: {
+        readonly [mediaType: string]: { readonly schema?: SchemaObject };
+    };
+};
+
+/**
+ * An OpenAPI 3.1 [Responses Object](https://spec.openapis.org/oas/v3.1.0#responses-object),
+ * keyed by status code.
+ */
+export type OpenAPIResponses = {
+    readonly [code: string]: OpenAPIResponse;
+};
+
+/**
+ * Options of {@link openAPIResponses}.
+ *
+ * @property schemas - The content schema of each status, keyed by status code.
+ * @property contentType - The media type of the `schemas`. Defaults to `"application/json"`.
+ * @property problemSchema - The schema of `4XX` and `5XX` responses without a schema of their
+ * own, served as `application/problem+json`; typically a `$ref` to a shared component.
+ * Defaults to an inline Problem Details schema. Set to `false` to leave them without content.
+ */
+export type OpenAPIResponsesOptions = {
+    readonly schemas?: { readonly [code: number]: SchemaObject };
+    readonly contentType?: string;
+    readonly problemSchema?: SchemaObject | false;
+};
+
+/**
+ * Builds the [RFC 9457](https://www.rfc-editor.org/rfc/rfc9457) Problem Details schema of a
+ * status, with its `status` member pinned to the code.
+ *
+ * @param status - Any `HTTPStatus`.
+ *
+ * @example
+ * ```
+ * problemDetailsSchema(NOT_FOUND).properties.status; // { type: "integer", const: 404 }
+ * ```
+ */
+export const problemDetailsSchema = (status: HTTPStatus) =>
+    Object.freeze({
+        type: "object",
+        properties: Object.freeze({
+            type: Object.freeze({
+                type: "string",
+                format: "uri-reference",
+                default: ABOUT_BLANK,
+            }),
+            title: Object.freeze({
+                type: "string",
+                examples: Object.freeze([status.statusText]),
+            }),
+            status: Object.freeze({
+                type: "integer",
+                const: status.status,
+            }),
+            detail: Object.freeze({ type: "string" }),
+            instance: Object.freeze({
+                type: "string",
+                format: "uri-reference",
+            }),
+        }),
+    });
+
+/**
+ * The headers an API description requires with a status: those the response must carry,
+ * plus those a client of the API relies on, such as `Location` for `CREATED` and
+ * `Retry-After` for `TOO_MANY_REQUESTS` (see `RECOMMENDED_HEADERS`).
+ */
+const requiredHeaders = (code: number): readonly string[] => [
+    ...(REQUIRED_HEADERS[code as StatusCode] ?? []),
+    ...(RECOMMENDED_HEADERS[code as StatusCode] ?? []),
+];
+
+/**
+ * Generates an OpenAPI 3.1 `responses` object from status constants.
+ *
+ * Each response gets the status text as its description, the headers the status requires
+ * (e.g. `Location` for `CREATED`, `Retry-After` for `TOO_MANY_REQUESTS`) and, for errors
+ * without a schema, a Problem Details body.
+ *
+ * @param statuses - The status constants the operation may answer with.
+ * @param options - The content schemas and the Problem Details schema.
+ *
+ * @throws {TypeError} When a schema is given for a status that forbids content, such as
+ * `NO_CONTENT`.
+ *
+ * @example
+ * ```
+ * openAPIResponses([CREATED, CONFLICT], {
+ *     schemas: { 201: { $ref: "#/components/schemas/Article" } },
+ * });
+ * // {
+ * //     "201": {
+ * //         description: "Created",
+ * //         headers: { Location: { required: true, schema: { type: "string" } } },
+ * //         content: { "application/json": { schema: { $ref: "#/components/schemas/Article" } } },
+ * //     },
+ * //     "409": {
+ * //         description: "Conflict",
+ * //         content: { "application/problem+json": { schema: { type: "object", ... } } },
+ * //     },
+ * // }
+ * ```
+ */
+export const openAPIResponses = (
+    statuses: readonly HTTPStatus[],
+    options: OpenAPIResponsesOptions = {},
+): OpenAPIResponses => {
+    const { contentType = "application/json" } = options;
+    const responses: { [code: string]: OpenAPIResponse } = {};
+
+    for (const status of [...statuses].sort(
+        (a, b) => a.status - b.status,
+    )) {
+        const schema = options.schemas?.[status.status];
+        if (schema !== undefined && !allowsBody(status)) {
+            throw new TypeError(
+                `A ${status.status} ${status.statusText} response must not have content.`,
+            );
+        }
+
+        const required = requiredHeaders(status.status);
+        const headers = Object.fromEntries(
+            required.map((name) => [
+                name,
+                Object.freeze({
+                    required: true,
+                    schema: Object.freeze({ type: "string" }),
+                }),
+            ]),
+        );
+
+        const problemSchema =
+            options.problemSchema ?? problemDetailsSchema(status);
+        const content =
+            schema !== undefined
+                ? { [contentType]: Object.freeze({ schema }) }
+                : isError(status) && problemSchema !== false
+                  ? {
+                        [PROBLEM_JSON]: Object.freeze({
+                            schema: problemSchema,
+                        }),
+                    }
+                  : undefined;
+
+        responses[status.status] = Object.freeze({
+            description: status.statusText,
+            ...(required.length > 0 && { headers: Object.freeze(headers) }),
+            ...(content && { content: Object.freeze(content) }),
+        });
+    }
+
+    return Object.freeze(responses);
+};
+
+/**
+ * The kinds of problems reported by {@link validateOpenAPI}.
+ *
+ * - `invalid-code`: the key is neither a status code, a range such as `4XX`, nor `default`.
+ * - `unknown-status`: the code is not a standard status.
+ * - `deprecated-status`: the status is deprecated, such as `USE_PROXY`.
+ * - `unused-status`: the status is reserved and must not be sent (`306`).
+ * - `unexpected-content`: the status forbids content, such as `NO_CONTENT`.
+ * - `missing-header`: a header required by the status is not declared.
+ */
+export type OpenAPIIssueCode =
+    | "invalid-code"
+    | "unknown-status"
+    | "deprecated-status"
+    | "unused-status"
+    | "unexpected-content"
+    | "missing-header";
+
+/**
+ * A problem found by {@link validateOpenAPI}.
+ *
+ * @property pointer - The JSON Pointer of the offending response in the document.
+ * @property code - The kind of problem.
+ * @property severity - `"error"` for responses that cannot be right, `"warning"` otherwise.
+ * @property message - A human-readable explanation.
+ */
+export type OpenAPIIssue = {
+    readonly pointer: string;
+    readonly code: OpenAPIIssueCode;
+    readonly severity: "error" | "warning";
+    readonly message: string;
+};
+
+const OPERATIONS = [
+    "get",
+    "put",
+    "post",
+    "delete",
+    "options",
+    "head",
+    "patch",
+    "trace",
+] as const;
+
+type Node = { readonly [key: string]: unknown };
+
+const isNode = (value: unknown): value is Node =>
+    typeof value === "object" && value !== null && !Array.isArray(value);
+
+const escapePointer = (token: string) =>
+    token.replace(/~/g, "~0").replace(/\//g, "~1");
+
+/**
+ * Resolves a local `$ref` such as `#/components/responses/NotFound`, following chained
+ * references. Remote references are left unresolved.
+ */
+const resolve = (document: Node, value: unknown, seen = new Set()) => {
+    if (!isNode(value) || typeof value.$ref !== "string") {
+        return value;
+    }
+
+    if (!value.$ref.startsWith("#/") || seen.has(value.$ref)) {
+        return undefined;
+    }
+
+    seen.add(value.$ref);
+    const target = value.$ref
+        .slice(2)
+        .split("/")
+        .map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"))
+        .reduce<unknown>(
+            (node, token) => (isNode(node) ? node[token] : undefined),
+            document,
+        );
+
+    return resolve(document, target, seen);
+};
+
+const validateResponse = (
+    document: Node,
+    pointer: string,
+    key: string,
+    value: unknown,
+): OpenAPIIssue[] => {
+    const issue = (
+        code: OpenAPIIssueCode,
+        severity: OpenAPIIssue["severity"],
+        message: string,
+    ): OpenAPIIssue => Object.freeze({ pointer, code, severity, message });
+
+    if (key === "default" || /^[1-5]XX$/.test(key)) {
+        return [];
+    }
+
+    if (!/^[1-5]\d\d$/.test(key)) {
+        return [
+            issue(
+                "invalid-code",
+                "error",
+                `"${key}" is not a status code, a status code range or "default".`,
+            ),
+        ];
+    }
+
+    const status = fromCode(Number(key));
+    if (!isKnownStatus(status)) {
+        return [
+            issue(
+                "unknown-status",
+                "warning",
+                `${key} is not a standard status code.`,
+            ),
+        ];
+    }
+
+    const issues: OpenAPIIssue[] = [];
+    const metadata = getMetadata(status);
+    if (metadata?.unused) {
+        issues.push(
+            issue(
+                "unused-status",
+                "error",
+                `${key} ${status.statusText} is reserved and must not be used.`,
+            ),
+        );
+    } else if (metadata?.deprecated) {
+        issues.push(
+            issue(
+                "deprecated-status",
+                "warning",
+                `${key} ${status.statusText} is deprecated.`,
+            ),
+        );
+    }
+
+    const response = resolve(document, value);
+    if (!isNode(response)) {
+        return issues;
+    }
+
+    if (
+        !allowsBody(status) &&
+        isNode(response.content) &&
+        Object.keys(response.content).length > 0
+    ) {
+        issues.push(
+            issue(
+                "unexpected-content",
+                "error",
+                `A ${key} ${status.statusText} response must not have content.`,
+            ),
+        );
+    }
+
+    const declared = new Set(
+        Object.keys(isNode(response.headers) ? response.headers : {}).map(
+            (name) => name.toLowerCase(),
+        ),
+    );
+    for (const name of requiredHeaders(status.status)) {
+        if (!declared.has(name.toLowerCase())) {
+            issues.push(
+                issue(
+                    "missing-header",
+                    "warning",
+                    `A ${key} ${status.statusText} response requires the ${name} header.`,
+                ),
+            );
+        }
+    }
+
+    return issues;
+};
+
+/**
+ * Validates the `responses` of every operation of an OpenAPI 3.x document, under `paths`
+ * and `webhooks`, against the status constants.
+ *
+ * Local `$ref`s to response objects are followed; the document is otherwise expected to
+ * be parsed already (e.g. with `JSON.parse` or a YAML parser).
+ *
+ * @param document - The OpenAPI document.
+ *
+ * @returns The problems found, in document order. An empty array means the document is
+ * consistent.
+ *
+ * @example
+ * ```
+ * validateOpenAPI(JSON.parse(await readFile("openapi.json", "utf8")));
+ * // [{
+ * //     pointer: "/paths/~1articles/post/responses/201",
+ * //     code: "missing-header",
+ * //     severity: "warning",
+ * //     message: "A 201 Created response requires the Location header.",
+ * // }]
+ * ```
+ */
+export const validateOpenAPI = (document: unknown): OpenAPIIssue[] => {
+    if (!isNode(document)) {
+        throw new TypeError("The OpenAPI document must be an object.");
+    }
+
+    const issues: OpenAPIIssue[] = [];
+    for (const section of ["paths", "webhooks"]) {
+        const items = document[section];
+        if (!isNode(items)) {
+            continue;
+        }
+
+        for (const [path, item] of Object.entries(items)) {
+            const pathItem = resolve(document, item);
+            if (!isNode(pathItem)) {
+                continue;
+            }
+
+            for (const method of OPERATIONS) {
+                const operation = pathItem[method];
+                if (!isNode(operation) || !isNode(operation.responses)) {
+                    continue;
+                }
+
+                const base = `/${section}/${escapePointer(path)}/${method}/responses`;
+                for (const [key, response] of Object.entries(
+                    operation.responses,
+                )) {
+                    issues.push(
+                        ...validateResponse(
+                            document,
+                            `${base}/${escapePointer(key)}`,
+                            key,
+                            response,
+                        ),
+                    );
+                }
+            }
+        }
+    }
+
+    return issues;
+};
@@ -0,0 +1,294 @@
+import type { HTTPStatus } from "./http-status";
+import type { HTTPError } from "./http-error";
+import {
+    fromCode,
+    type KnownHTTPStatus,
+    type UnknownHTTPStatus,
+} from "./registry";
+
+/**
+ * The media type of a Problem Details document
+ * ([RFC 9457 §3](https://www.rfc-editor.org/rfc/rfc9457#section-3)).
+ */
+export const PROBLEM_JSON = "application/problem+json";
+
+/**
+ * The default problem type, meaning the problem has no semantics beyond the status code.
+ */
+export const ABOUT_BLANK = "about:blank";
+
+/**
+ * Members defined by [RFC 9457 §3.1](https://www.rfc-editor.org/rfc/rfc9457#section-3.1).
+ * Extension members cannot override them.
+ */
+type ProblemMembers = "type" | "title" | "status" | "detail" | "instance";
+
+const PROBLEM_MEMBERS: ReadonlySet<string> = new Set<ProblemMembers>([
+    "type",
+    "title",
+    "status",
+    "detail",
+    "instance",
+]);
+
+/**
+ * Extension members of a Problem Details document
+ * ([RFC 9457 §3.2](https://www.rfc-editor.org/rfc/rfc9457#section-3.2)).
+ */
+export type ProblemExtensions = {
+    readonly [member: string]: unknown;
+} & { readonly [Member in ProblemMembers]?: never };
+
+/**
+ * A Problem Details document built from a status constant. The `status` and `title` members
+ * keep the literal types of the constant.
+ *
+ * @typeParam Status - The status constant of the problem.
+ * @typeParam Extensions - The extension members of the problem.
+ *
+ * @property type - A URI reference identifying the problem type. Defaults to `"about:blank"`.
+ * @property title - The status text of the constant.
+ * @property status - The status code of the constant.
+ * @property detail - A human-readable explanation specific to this occurrence of the problem.
+ * @property instance - A URI reference identifying this occurrence of the problem.
+ */
+export type ProblemDetails<
+    Status extends HTTPStatus = HTTPStatus,
+    Extensions extends ProblemExtensions = {},
+> = {
+    readonly type: string;
+    readonly title: Status["statusText"];
+    readonly status: Status["status"];
+    readonly detail?: string;
+    readonly instance?: string;
+} & Extensions;
+
+/**
+ * Options accepted by {@link problem} and {@link problemResponse}.
+ */
+export type ProblemOptions<Extensions extends ProblemExtensions = {}> = {
+    readonly type?: string;
+    readonly detail?: string;
+    readonly instance?: string;
+    readonly extensions?: Extensions;
+};
+
+/**
+ * A Problem Details document read from an untrusted source. Every member is optional
+ * except `type`, which defaults to `"about:blank"`.
+ */
+export type ParsedProblemDetails = {
+    readonly type: string;
+    readonly title?: string;
+    readonly status?: number;
+    readonly detail?: string;
+    readonly instance?: string;
+    readonly [member: string]: unknown;
+};
+
+/**
+ * Builds a Problem Details document from a status constant.
+ *
+ * @param status - The status constant; its code and text become `status` and `title`.
+ * @param options - The `type`, `detail`, `instance` and extension members.
+ *
+ * @example
+ * ```
+ * problem(FORBIDDEN, {
+ *     type: "https://example.com/probs/out-of-credit",
+ *     detail: "Your current balance is 30, but that costs 50.",
+ *     extensions: { balance: 30 },
+ * });
+ * // {
+ * //     type: "https://example.com/probs/out-of-credit",
+ * //     title: "Forbidden",
+ * //     status: 403,
+ * //     detail: "Your current balance is 30, but that costs 50.",
+ * //     balance: 30,
+ * // }
+ * ```
+ */
+export const problem = <
+    Status extends HTTPStatus,
+    Extensions extends ProblemExtensions = {},
+>(
+    status: Status,
+    options: ProblemOptions<Extensions> = {},
+): ProblemDetails<Status, Extensions> => {
+    const document: Record<string, unknown> = {
+        type: options.type ?? ABOUT_BLANK,
+        title: status.statusText,
+        status: status.status,
+        ...(options.detail !== undefined && { detail: options.detail }),
+        ...(options.instance !== undefined && {
+            instance: options.instance,
+        }),
+    };
+
+    for (const [member, value] of Object.entries(
+        options.extensions ?? {},
+    )) {
+        if (!PROBLEM_MEMBERS.has(member)) {
+            document[member] = value;
+        }
+    }
+
+    return Object.freeze(document) as ProblemDetails<Status, Extensions>;
+};
+
+/**
+ * Builds a Fetch `Response` carrying a Problem Details document, with the
+ * `application/problem+json` content type and the status of the constant.
+ *
+ * @param status - The status constant of the problem.
+ * @param options - The `type`, `detail`, `instance` and extension members.
+ * @param init - Additional response headers.
+ *
+ * @example
+ * ```
+ * return problemResponse(NOT_FOUND, { detail: `No article ${id}.` });
+ * ```
+ */
+export const problemResponse = <
+    Status extends HTTPStatus,
+    Extensions extends ProblemExtensions = {},
+>(
+    status: Status,
+    options: ProblemOptions<Extensions> = {},
+    init: { readonly headers?: HeadersInit } = {},
+): Response => {
+    const headers = new Headers(init.headers);
+    headers.set("Content-Type", PROBLEM_JSON);
+
+    return new Response(JSON.stringify(problem(status, options)), {
+        headers,
+        status: status.status,
+        statusText: status.statusText,
+    });
+};
+
+/**
+ * Builds a Fetch `Response` carrying a Problem Details document from an {@link HTTPError}.
+ * The error message becomes the `detail` member and the error headers are kept.
+ *
+ * @param error - The error to convert.
+ * @param options - The `type`, `instance` and extension members.
+ */
+export const problemResponseFromError = <
+    Extensions extends ProblemExtensions = {},
+>(
+    error: HTTPError,
+    options: Omit<ProblemOptions<Extensions>, "detail"> = {},
+): Response =>
+    problemResponse(
+        error,
+        { ...options, detail: error.message },
+        { headers: error.headers },
+    );
+
+const stringMember = (value: unknown): string | undefined =>
+    typeof value === "string" ? value : undefined;
+
+const statusMember = (value: unknown): number | undefined =>
+    Number.isInteger(value) &&
+    (value as number) >= 100 &&
+    (value as number) <= 599
+        ? (value as number)
+        : undefined;
+
+/**
+ * Validates an untrusted value as a Problem Details document.
+ *
+ * As required by [RFC 9457 §3.1](https://www.rfc-editor.org/rfc/rfc9457#section-3.1),
+ * members whose value has the wrong type are ignored rather than rejected, and a missing
+ * `type` defaults to `"about:blank"`.
+ *
+ * @param value - Any value, typically the result of `JSON.parse`.
+ *
+ * @returns The normalized document, or `undefined` when the value is not a JSON object.
+ */
+export const parseProblemDetails = (
+    value: unknown,
+): ParsedProblemDetails | undefined => {
+    if (
+        typeof value !== "object" ||
+        value === null ||
+        Array.isArray(value)
+    ) {
+        return undefined;
+    }
+
+    const members = value as Record<string, unknown>;
+    const normalized: Record<string, unknown> = {
+        ...members,
+        type: stringMember(members.type) ?? ABOUT_BLANK,
+        title: stringMember(members.title),
+        status: statusMember(members.status),
+        detail: stringMember(members.detail),
+        instance: stringMember(members.instance),
+    };
+
+    for (const member of PROBLEM_MEMBERS) {
+        if (normalized[member] === undefined) {
+            delete normalized[member];
+        }
+    }
+
+    return Object.freeze(normalized) as ParsedProblemDetails;
+};
+
+/**
+ * Result of {@link readProblemDetails}.
+ *
+ * @property problem - The normalized Problem Details document.
+ * @property status - The status constant matching the problem, or an unknown status.
+ */
+export type ReadProblemDetails = {
+    readonly problem: ParsedProblemDetails;
+    readonly status: KnownHTTPStatus | UnknownHTTPStatus;
+};
+
+/**
+ * Reads a Problem Details document from an incoming `Response`.
+ *
+ * The `status` member takes precedence over the response status when resolving the
+ * status constant, as it reflects the status generated by the origin server.
+ *
+ * @param response - The response to read. Its body is consumed.
+ *
+ * @returns The document and its status constant, or `undefined` when the response is not
+ * `application/problem+json` or its body is not a JSON object.
+ *
+ * @example
+ * ```
+ * const result = await readProblemDetails(response);
+ * if (result?.status === TOO_MANY_REQUESTS) {
+ *     // ...
+ * }
+ * ```
+ */
+export const readProblemDetails = async (
+    response: Response,
+): Promise<ReadProblemDetails | undefined> => {
+    const contentType = response.headers.get("Content-Type") ?? "";
+    if (contentType.split(";")[0].trim().toLowerCase() !== PROBLEM_JSON) {
+        return undefined;
+    }
+
+    let body: unknown;
+    try {
+        body = await response.json();
+    } catch {
+        return undefined;
+    }
+
+    const parsed = parseProblemDetails(body);
+    if (parsed === undefined) {
+        return undefined;
+    }
+
+    return Object.freeze({
+        problem: parsed,
+        status: fromCode(parsed.status ?? response.status),
+    });
+};
@@ -0,0 +1,351 @@
+import {
+    MISDIRECTED_REQUEST,
+    SWITCHING_PROTOCOLS,
+    UPGRADE_REQUIRED,
+    type HTTPStatus,
+} from "./http-status";
+import {
+    fromCode,
+    type KnownHTTPStatus,
+    type UnknownHTTPStatus,
+} from "./registry";
+import { isInformational } from "./status-class";
+import type { HeaderField, ResponseHead } from "./status-line";
+
+/**
+ * An HTTP protocol version.
+ */
+export type Protocol = "HTTP/1.0" | "HTTP/1.1" | "HTTP/2" | "HTTP/3";
+
+/**
+ * How a status behaves in a protocol version, as returned by {@link protocolSupport}.
+ *
+ * @property allowed - Whether the status may be sent in this version.
+ * @property reasonPhrase - Whether this version carries a reason phrase. HTTP/2 and HTTP/3
+ * only send the code, in the `:status` pseudo-header.
+ * @property note - Why the status is not allowed, or what it implies for the connection.
+ */
+export type ProtocolSupport = {
+    readonly allowed: boolean;
+    readonly reasonPhrase: boolean;
+    readonly note?: string;
+};
+
+/**
+ * Options of {@link protocolSupport}.
+ *
+ * @property direction - Whether the status is sent or received. A received status that may
+ * not be sent is still understood when it has a meaning in this version. Defaults to
+ * `"sent"`.
+ */
+export type ProtocolSupportOptions = {
+    readonly direction?: "sent" | "received";
+};
+
+/**
+ * Header fields specific to an HTTP/1.x connection. They are malformed in HTTP/2
+ * ([RFC 9113 §8.2.2](https://www.rfc-editor.org/rfc/rfc9113#section-8.2.2)) and HTTP/3
+ * ([RFC 9114 §4.2](https://www.rfc-editor.org/rfc/rfc9114#section-4.2)).
+ */
+export const CONNECTION_SPECIFIC_HEADERS: readonly string[] = Object.freeze(
+    [
+        "Connection",
+        "Keep-Alive",
+        "Proxy-Connection",
+        "Transfer-Encoding",
+        "Upgrade",
+    ],
+);
+
+const isMultiplexed = (protocol: Protocol) =>
+    protocol === "HTTP/2" || protocol === "HTTP/3";
+
+/**
+ * Describes how a status behaves in a protocol version:
+ *
+ * - HTTP/1.0 clients do not understand `1XX` responses, which must not be sent to them
+ *   ([RFC 9110 §15.2](https://httpwg.org/specs/rfc9110.html#status.1xx)).
+ * - HTTP/2 and HTTP/3 have no reason phrase, and no `Upgrade` mechanism: `SWITCHING_PROTOCOLS`
+ *   is forbidden, and `UPGRADE_REQUIRED` cannot carry its `Upgrade` header. A received
+ *   `UPGRADE_REQUIRED` is still allowed, since it tells the client to retry over HTTP/1.1.
+ * - `MISDIRECTED_REQUEST` tells the client that a reused (in HTTP/2 and HTTP/3, possibly
+ *   coalesced) connection does not serve this origin.
+ *
+ * @param status - A status code or any `HTTPStatus`.
+ * @param protocol - The protocol version.
+ * @param options - Whether the status is sent or received.
+ *
+ * @example
+ * ```
+ * protocolSupport(SWITCHING_PROTOCOLS, "HTTP/2");
+ * // { allowed: false, reasonPhrase: false, note: "HTTP/2 does not support 101 Switching Protocols; ..." }
+ * protocolSupport(UPGRADE_REQUIRED, "HTTP/2", { direction: "received" });
+ * // { allowed: true, reasonPhrase: false, note: "426 Upgrade Required was received without ..." }
+ * ```
+ */
+export const protocolSupport = (
+    status: number | HTTPStatus,
+    protocol: Protocol,
+    options: ProtocolSupportOptions = {},
+): ProtocolSupport => {
+    const code = typeof status === "number" ? status : status.status;
+    const reasonPhrase = !isMultiplexed(protocol);
+    const support = (allowed: boolean, note?: string): ProtocolSupport =>
+        Object.freeze({
+            allowed,
+            reasonPhrase,
+            ...(note !== undefined && { note }),
+        });
+
+    if (protocol === "HTTP/1.0" && isInformational(code)) {
+        return support(
+            false,
+            `HTTP/1.0 clients do not understand ${code} interim responses.`,
+        );
+    }
+
+    if (isMultiplexed(protocol) && code === SWITCHING_PROTOCOLS.status) {
+        return support(
+            false,
+            `${protocol} does not support ${SWITCHING_PROTOCOLS.status} ${SWITCHING_PROTOCOLS.statusText}; use the CONNECT method or Alt-Svc instead.`,
+        );
+    }
+
+    if (isMultiplexed(protocol) && code === UPGRADE_REQUIRED.status) {
+        return (options.direction ?? "sent") === "sent"
+            ? support(
+                  false,
+                  `${UPGRADE_REQUIRED.status} ${UPGRADE_REQUIRED.statusText} requires the Upgrade header, which ${protocol} forbids.`,
+              )
+            : support(
+                  true,
+                  `${UPGRADE_REQUIRED.status} ${UPGRADE_REQUIRED.statusText} was received without the Upgrade header, which ${protocol} forbids; the client may retry over HTTP/1.1.`,
+              );
+    }
+
+    if (code === MISDIRECTED_REQUEST.status) {
+        return support(
+            true,
+            isMultiplexed(protocol)
+                ? `The ${protocol} connection was reused or coalesced for an origin it does not serve; the client may retry on a new connection, and must not reuse this one for the origin.`
+                : `The connection does not serve this origin, e.g. after a TLS SNI mismatch; the client may retry on a new connection.`,
+        );
+    }
+
+    return support(true);
+};
+
+/**
+ * Adapts a status to a protocol version, for spreading into a response: the reason phrase
+ * is kept in HTTP/1.x and emptied in HTTP/2 and HTTP/3.
+ *
+ * @param status - Any `HTTPStatus`.
+ * @param protocol - The protocol version of the response.
+ *
+ * @throws {TypeError} When the status is not allowed in this version; see
+ * {@link protocolSupport}.
+ *
+ * @example
+ * ```
+ * forProtocol(NOT_FOUND, "HTTP/2"); // { status: 404, statusText: "" }
+ * new Response(body, { ...forProtocol(CREATED, protocol), headers });
+ * ```
+ */
+export const forProtocol = <Status extends HTTPStatus>(
+    status: Status,
+    protocol: Protocol,
+): {
+    readonly status: Status["status"];
+    readonly statusText: Status["statusText"] | "";
+} => {
+    const support = protocolSupport(status, protocol);
+    if (!support.allowed) {
+        throw new TypeError(support.note);
+    }
+
+    return Object.freeze({
+        status: status.status,
+        statusText: support.reasonPhrase ? status.statusText : "",
+    });
+};
+
+/**
+ * Header fields as received from `node:http2`, where values may be numbers or arrays.
+ */
+export type HTTP2Headers = {
+    readonly [name: string]:
+        string | number | readonly string[] | undefined;
+};
+
+/**
+ * Parses the `:status` pseudo-header of an HTTP/2 or HTTP/3 response
+ * ([RFC 9113 §8.3.2](https://www.rfc-editor.org/rfc/rfc9113#section-8.3.2)).
+ *
+ * @param value - The value of `:status`.
+ * @param protocol - The protocol version. Defaults to `"HTTP/2"`.
+ *
+ * @returns The status constant matching the code, or an unknown status.
+ *
+ * @throws {SyntaxError} When the value is not a three-digit code between `100` and `599`, or
+ * the status is not allowed when received in this version; see {@link protocolSupport}.
+ *
+ * @example
+ * ```
+ * parseStatusPseudoHeader("503"); // SERVICE_UNAVAILABLE
+ * parseStatusPseudoHeader("426"); // UPGRADE_REQUIRED
+ * parseStatusPseudoHeader("101"); // throws
+ * ```
+ */
+export const parseStatusPseudoHeader = (
+    value: string | number,
+    protocol: Extract<Protocol, "HTTP/2" | "HTTP/3"> = "HTTP/2",
+): KnownHTTPStatus | UnknownHTTPStatus => {
+    const text = String(value);
+    if (!/^[1-5]\d\d$/.test(text)) {
+        throw new SyntaxError(
+            `Malformed :status pseudo-header: ${JSON.stringify(text)}`,
+        );
+    }
+
+    const support = protocolSupport(Number(text), protocol, {
+        direction: "received",
+    });
+    if (!support.allowed) {
+        throw new SyntaxError(support.note);
+    }
+
+    return fromCode(Number(text));
+};
+
+const CONNECTION_SPECIFIC = new Set(
+    CONNECTION_SPECIFIC_HEADERS.map((name) => name.toLowerCase()),
+);
+
+/**
+ * Converts an HTTP/2 or HTTP/3 response head to HTTP/1.1, for a gateway: `:status` is
+ * validated and the reason phrase is supplied from the matching constant (empty for unknown
+ * codes), so that `formatResponseHead(head.statusLine.resolved, head.headers)` writes it.
+ *
+ * @param fields - The response header fields, with the `:status` pseudo-header, as an ordered
+ * list or as a `node:http2` headers object.
+ * @param protocol - The protocol version of the fields. Defaults to `"HTTP/2"`.
+ *
+ * @throws {SyntaxError} When `:status` is missing, repeated or invalid, when another
+ * pseudo-header, an uppercase or a connection-specific field is present, or when a
+ * pseudo-header follows a regular field.
+ *
+ * @example
+ * ```
+ * client.request({ ":path": "/" }).on("response", (headers) => {
+ *     const head = fromHTTP2Fields(headers);
+ *     socket.write(formatResponseHead(head.statusLine.resolved, head.headers));
+ * });
+ * ```
+ */
+export const fromHTTP2Fields = (
+    fields: readonly HeaderField[] | HTTP2Headers,
+    protocol: Extract<Protocol, "HTTP/2" | "HTTP/3"> = "HTTP/2",
+): ResponseHead => {
+    const list: readonly (readonly [string, string | number])[] =
+        Array.isArray(fields)
+            ? fields
+            : Object.entries(fields).flatMap(([name, value]) =>
+                  value === undefined
+                      ? []
+                      : typeof value === "object"
+                        ? value.map((item) => [name, item] as const)
+                        : [[name, value] as const],
+              );
+
+    let status: string | number | undefined;
+    const headers: HeaderField[] = [];
+    for (const [name, value] of list) {
+        if (name !== name.toLowerCase()) {
+            throw new SyntaxError(
+                `Uppercase field name in ${protocol}: ${JSON.stringify(name)}`,
+            );
+        }
+
+        if (name.startsWith(":")) {
+            if (name !== ":status" || status !== undefined) {
+                throw new SyntaxError(
+                    `Unexpected ${name} pseudo-header in an ${protocol} response.`,
+                );
+            }
+            if (headers.length > 0) {
+                throw new SyntaxError(
+                    `The :status pseudo-header must precede the other fields.`,
+                );
+            }
+
+            status = value;
+            continue;
+        }
+
+        if (CONNECTION_SPECIFIC.has(name)) {
+            throw new SyntaxError(
+                `Connection-specific field in ${protocol}: ${name}`,
+            );
+        }
+
+        headers.push(Object.freeze([name, String(value)] as const));
+    }
+
+    if (status === undefined) {
+        throw new SyntaxError(
+            `Missing :status pseudo-header in an ${protocol} response.`,
+        );
+    }
+
+    const resolved = parseStatusPseudoHeader(status, protocol);
+
+    return Object.freeze({
+        statusLine: Object.freeze({
+            version: "HTTP/1.1",
+            status: resolved.status,
+            reasonPhrase: resolved.statusText,
+            resolved,
+        }),
+        headers: Object.freeze(headers),
+    });
+};
+
+/**
+ * Converts an HTTP/1.x response head to HTTP/2 or HTTP/3 fields, for a gateway: the reason
+ * phrase is dropped, `:status` comes first, names are lowercased, and the connection-specific
+ * fields are removed along with the fields the `Connection` header nominates.
+ *
+ * @param head - The response head, e.g. from `parseResponseHead()`.
+ * @param protocol - The protocol version of the fields. Defaults to `"HTTP/2"`.
+ *
+ * @throws {TypeError} When the status is not allowed in this version, such as
+ * `SWITCHING_PROTOCOLS`.
+ *
+ * @example
+ * ```
+ * toHTTP2Fields(parseResponseHead("HTTP/1.1 200 OK\r\nConnection: keep-alive\r\nContent-Type: text/plain\r\n\r\n"));
+ * // [[":status", "200"], ["content-type", "text/plain"]]
+ * ```
+ */
+export const toHTTP2Fields = (
+    head: ResponseHead,
+    protocol: Extract<Protocol, "HTTP/2" | "HTTP/3"> = "HTTP/2",
+): HeaderField[] => {
+    const { status } = forProtocol(head.statusLine.resolved, protocol);
+    const nominated = new Set(
+        head.headers
+            .filter(([name]) => name.toLowerCase() === "connection")
+            .flatMap(([, value]) => value.split(","))
+            .map((name) => name.trim().toLowerCase()),
+    );
+
+    return [
+        [":status", String(status)] as const,
+        ...head.headers
+            .map(([name, value]) => [name.toLowerCase(), value] as const)
+            .filter(
+                ([name]) =>
+                    !CONNECTION_SPECIFIC.has(name) && !nominated.has(name),
+            ),
+    ];
+};
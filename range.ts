@@ -0,0 +1,343 @@
+import { OK, PARTIAL_CONTENT, RANGE_NOT_SATISFIABLE } from "./http-status";
+import { evaluateIfRange, type ResourceState } from "./conditional";
+import type { ResponseOptions } from "./responses";
+
+/**
+ * A range of bytes, with both offsets inclusive as in a `Content-Range` header.
+ */
+export type ByteRange = {
+    readonly start: number;
+    readonly end: number;
+};
+
+/**
+ * Result of {@link parseRange}.
+ *
+ * - `ranges`: the satisfiable ranges, clipped to the resource and in request order.
+ * - `unsatisfiable`: the header is valid but no range overlaps the resource.
+ * - `ignore`: the header is malformed, uses another unit or asks for too many ranges; the
+ *   full representation should be sent.
+ */
+export type RangeResult =
+    | { readonly type: "ranges"; readonly ranges: readonly ByteRange[] }
+    | { readonly type: "unsatisfiable" }
+    | { readonly type: "ignore" };
+
+/**
+ * Options of {@link parseRange}.
+ *
+ * @property maxRanges - The largest number of ranges honored; longer lists are ignored to
+ * defend against abusive requests. Defaults to `50`.
+ * @property coalesce - Whether to merge overlapping and adjacent ranges. Defaults to `true`.
+ */
+export type RangeOptions = {
+    readonly maxRanges?: number;
+    readonly coalesce?: boolean;
+};
+
+/**
+ * A chunk of content returned by a {@link RangeSource}.
+ */
+export type RangeChunk = Uint8Array | Blob | ReadableStream<Uint8Array>;
+
+/**
+ * A resource that can be served in parts. A `Blob` or a `File` is a valid source.
+ *
+ * @property size - The length of the resource, in bytes.
+ * @property type - The media type of the resource, if known.
+ * @property slice - Returns the bytes from `start` to `end`, `end` excluded, e.g. as a stream
+ * read from a file.
+ */
+export type RangeSource = {
+    readonly size: number;
+    readonly type?: string;
+    readonly slice: (
+        start: number,
+        end: number,
+    ) => RangeChunk | Promise<RangeChunk>;
+};
+
+/**
+ * Options of {@link rangeResponse}.
+ *
+ * @property resource - The entity tag and modification date of the resource, used to evaluate
+ * `If-Range`.
+ */
+export type RangeResponseOptions = ResponseOptions &
+    RangeOptions & {
+        readonly resource?: ResourceState;
+    };
+
+const BYTES_RANGE = /^\s*bytes\s*=\s*(.+)$/i;
+const RANGE_SPEC = /^\s*(\d*)\s*-\s*(\d*)\s*$/;
+
+/**
+ * Parses a [`Range`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Range) header
+ * against the length of a resource
+ * ([RFC 9110 §14.1.2](https://httpwg.org/specs/rfc9110.html#byte.ranges)).
+ *
+ * Supports single (`bytes=0-499`), open-ended (`bytes=500-`), suffix (`bytes=-500`) and
+ * multiple (`bytes=0-99,200-299`) ranges.
+ *
+ * @param value - The header value.
+ * @param size - The length of the resource, in bytes.
+ * @param options - The limit on the number of ranges and whether to coalesce them.
+ *
+ * @example
+ * ```
+ * parseRange("bytes=0-99,-100", 1000);
+ * // { type: "ranges", ranges: [{ start: 0, end: 99 }, { start: 900, end: 999 }] }
+ *
+ * parseRange("bytes=2000-", 1000); // { type: "unsatisfiable" }
+ * ```
+ */
+export const parseRange = (
+    value: string,
+    size: number,
+    options: RangeOptions = {},
+): RangeResult => {
+    const { maxRanges = 50, coalesce = true } = options;
+    const match = BYTES_RANGE.exec(value);
+    if (match === null) {
+        return { type: "ignore" };
+    }
+
+    const specs = match[1].split(",").filter((spec) => spec.trim() !== "");
+    if (specs.length === 0 || specs.length > maxRanges) {
+        return { type: "ignore" };
+    }
+
+    const ranges: ByteRange[] = [];
+    for (const spec of specs) {
+        const [, first = "", last = ""] = RANGE_SPEC.exec(spec) ?? [];
+        if (first === "" && last === "") {
+            return { type: "ignore" };
+        }
+
+        if (first === "") {
+            // Suffix range: the last `last` bytes.
+            const length = Number(last);
+            if (length > 0 && size > 0) {
+                ranges.push({
+                    start: Math.max(0, size - length),
+                    end: size - 1,
+                });
+            }
+            continue;
+        }
+
+        const start = Number(first);
+        const end = last === "" ? Infinity : Number(last);
+        if (end < start) {
+            return { type: "ignore" };
+        }
+
+        if (start < size) {
+            ranges.push({ start, end: Math.min(end, size - 1) });
+        }
+    }
+
+    if (ranges.length === 0) {
+        return { type: "unsatisfiable" };
+    }
+
+    if (!coalesce || ranges.length === 1) {
+        return { type: "ranges", ranges: Object.freeze(ranges) };
+    }
+
+    const merged: ByteRange[] = [];
+    for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+        const previous = merged[merged.length - 1];
+        if (previous !== undefined && range.start <= previous.end + 1) {
+            merged[merged.length - 1] = {
+                start: previous.start,
+                end: Math.max(previous.end, range.end),
+            };
+        } else {
+            merged.push(range);
+        }
+    }
+
+    return { type: "ranges", ranges: Object.freeze(merged) };
+};
+
+/**
+ * Formats a [`Content-Range`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Content-Range)
+ * value.
+ *
+ * @param range - The range sent, or `undefined` for an unsatisfiable range.
+ * @param size - The length of the resource, in bytes.
+ *
+ * @example
+ * ```
+ * formatContentRange({ start: 0, end: 499 }, 1000); // "bytes 0-499/1000"
+ * formatContentRange(undefined, 1000); // "bytes *\/1000"
+ * ```
+ */
+export const formatContentRange = (
+    range: ByteRange | undefined,
+    size: number,
+): string =>
+    range === undefined
+        ? `bytes */${size}`
+        : `bytes ${range.start}-${range.end}/${size}`;
+
+const encoder = new TextEncoder();
+
+/**
+ * Concatenates chunks into a single stream, reading each chunk only when the previous one
+ * has been consumed.
+ */
+const concat = (
+    chunks: readonly (() => RangeChunk | Promise<RangeChunk>)[],
+): ReadableStream<Uint8Array> => {
+    const iterator = (async function* () {
+        for (const next of chunks) {
+            const chunk = await next();
+            if (chunk instanceof Uint8Array) {
+                yield chunk;
+                continue;
+            }
+
+            const reader = (
+                chunk instanceof Blob ? chunk.stream() : chunk
+            ).getReader();
+            try {
+                for (;;) {
+                    const { done, value } = await reader.read();
+                    if (done) {
+                        break;
+                    }
+                    yield value;
+                }
+            } finally {
+                reader.releaseLock();
+            }
+        }
+    })();
+
+    return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            const { done, value } = await iterator.next();
+            if (done) {
+                controller.close();
+            } else {
+                controller.enqueue(value);
+            }
+        },
+        async cancel() {
+            await iterator.return(undefined);
+        },
+    });
+};
+
+/**
+ * Serves a resource, honoring the `Range` and `If-Range` headers of a `GET` request.
+ *
+ * - No `Range`, a malformed one, a non-`GET` method or a failed `If-Range`: `200 OK` with the
+ *   full representation.
+ * - One satisfiable range: `206 Partial Content` with `Content-Range`.
+ * - Several satisfiable ranges: `206 Partial Content` with a `multipart/byteranges` body.
+ * - No satisfiable range: `416 Range Not Satisfiable` with `Content-Range: bytes *\/size`.
+ *
+ * Content is streamed: each range is sliced from the source only when it is read.
+ *
+ * @param request - The method and headers of the request, such as a Fetch `Request`.
+ * @param source - The resource, e.g. a `Blob` or a source reading a file.
+ * @param options - The `If-Range` validators, range limits and additional response headers.
+ *
+ * @example
+ * ```
+ * const file = await openAsBlob("video.mp4");
+ * return rangeResponse(request, file, { resource: { etag: '"v1"' } });
+ * ```
+ */
+export const rangeResponse = async (
+    request: { readonly method?: string; readonly headers: HeadersInit },
+    source: RangeSource,
+    options: RangeResponseOptions = {},
+): Promise<Response> => {
+    const { size, type = "application/octet-stream" } = source;
+    const requestHeaders = new Headers(request.headers);
+    const headers = new Headers(options.headers);
+    headers.set("Accept-Ranges", "bytes");
+
+    const range = requestHeaders.get("Range");
+    const result =
+        range !== null &&
+        (request.method ?? "GET").toUpperCase() === "GET" &&
+        evaluateIfRange(requestHeaders, options.resource ?? {})
+            ? parseRange(range, size, options)
+            : { type: "ignore" as const };
+
+    if (result.type === "unsatisfiable") {
+        headers.set("Content-Range", formatContentRange(undefined, size));
+
+        return new Response(null, {
+            headers,
+            status: RANGE_NOT_SATISFIABLE.status,
+            statusText: RANGE_NOT_SATISFIABLE.statusText,
+        });
+    }
+
+    if (result.type === "ignore") {
+        headers.set("Content-Type", headers.get("Content-Type") ?? type);
+        headers.set("Content-Length", String(size));
+
+        return new Response(concat([() => source.slice(0, size)]), {
+            headers,
+            status: OK.status,
+            statusText: OK.statusText,
+        });
+    }
+
+    const { ranges } = result;
+    if (ranges.length === 1) {
+        const [{ start, end }] = ranges;
+        headers.set("Content-Type", headers.get("Content-Type") ?? type);
+        headers.set("Content-Range", formatContentRange(ranges[0], size));
+        headers.set("Content-Length", String(end - start + 1));
+
+        return new Response(concat([() => source.slice(start, end + 1)]), {
+            headers,
+            status: PARTIAL_CONTENT.status,
+            statusText: PARTIAL_CONTENT.statusText,
+        });
+    }
+
+    const boundary = crypto.randomUUID().replace(/-/g, "");
+    const contentType = headers.get("Content-Type") ?? type;
+    const parts = ranges.map((range) => ({
+        range,
+        head: encoder.encode(
+            `\r\n--${boundary}\r\nContent-Type: ${contentType}\r\nContent-Range: ${formatContentRange(range, size)}\r\n\r\n`,
+        ),
+    }));
+    const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+    const length = parts.reduce(
+        (total, { range, head }) =>
+            total + head.length + range.end - range.start + 1,
+        tail.length,
+    );
+
+    headers.set(
+        "Content-Type",
+        `multipart/byteranges; boundary=${boundary}`,
+    );
+    headers.set("Content-Length", String(length));
+
+    return new Response(
+        concat([
+            ...parts.flatMap(({ range, head }) => [
+                () => head,
+                () => source.slice(range.start, range.end + 1),
+            ]),
+            () => tail,
+        ]),
+        {
+            headers,
+            status: PARTIAL_CONTENT.status,
+            statusText: PARTIAL_CONTENT.statusText,
+        },
+    );
+};
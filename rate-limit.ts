@@ -0,0 +1,419 @@
+import { TOO_MANY_REQUESTS } from "./http-status";
+import { formatRetryAfter } from "./responses";
+import { SYSTEM_CLOCK, type RetryClock } from "./retry";
+
+/**
+ * Source of time used by the rate limiter and the memory store.
+ */
+export type RateLimitClock = Pick<RetryClock, "now">;
+
+/**
+ * Options of {@link RateLimitStore.increment}.
+ *
+ * @property ttl - The lifetime of the counter after a successful increment, in milliseconds.
+ * @property floor - The value the counter is raised to before adding, also the value of a
+ * missing counter. Defaults to `0`.
+ * @property ceiling - The largest value the counter may reach; an increment that would exceed
+ * it is not applied. Defaults to no limit.
+ */
+export type RateLimitIncrementOptions = {
+    readonly ttl: number;
+    readonly floor?: number;
+    readonly ceiling?: number;
+};
+
+/**
+ * Result of {@link RateLimitStore.increment}.
+ *
+ * @property value - The counter after the increment, or before it when it was not applied.
+ * @property applied - Whether the increment was applied.
+ */
+export type RateLimitIncrementResult = {
+    readonly value: number;
+    readonly applied: boolean;
+};
+
+/**
+ * Storage of the rate limiter counters, keyed by client.
+ *
+ * Every operation works on plain numbers, so that a shared store can run `increment`
+ * atomically, e.g. as a Redis Lua script. A store may be shared by limiters with different
+ * windows.
+ *
+ * @example
+ * ```
+ * const INCREMENT = `
+ *     local floor = tonumber(ARGV[3])
+ *     local value = math.max(tonumber(redis.call("GET", KEYS[1]) or floor), floor)
+ *     local next = value + tonumber(ARGV[1])
+ *     if ARGV[4] ~= "" and next > tonumber(ARGV[4]) then
+ *         return { tostring(value), 0 }
+ *     end
+ *     redis.call("SET", KEYS[1], tostring(next), "PX", ARGV[2])
+ *     return { tostring(next), 1 }
+ * `;
+ * const store: RateLimitStore = {
+ *     increment: async (key, amount, { ttl, floor = 0, ceiling }) => {
+ *         const [value, applied] = await redis.eval(INCREMENT, 1, key, amount, Math.ceil(ttl), floor, ceiling ?? "");
+ *         return { value: Number(value), applied: applied === 1 };
+ *     },
+ *     get: async (key) => {
+ *         const value = await redis.get(key);
+ *         return value === null ? undefined : Number(value);
+ *     },
+ *     delete: async (key) => void (await redis.del(key)),
+ * };
+ * ```
+ */
+export type RateLimitStore = {
+    /**
+     * Atomically raises the counter of a key to `floor`, then adds `amount` unless the result
+     * exceeds `ceiling`.
+     */
+    readonly increment: (
+        key: string,
+        amount: number,
+        options: RateLimitIncrementOptions,
+    ) => Promise<RateLimitIncrementResult>;
+
+    /**
+     * Returns the counter of a key, or `undefined` when it is missing or expired.
+     */
+    readonly get: (key: string) => Promise<number | undefined>;
+
+    /**
+     * Removes the counter of a key.
+     */
+    readonly delete: (key: string) => Promise<void>;
+};
+
+/**
+ * Options of {@link createRateLimiter}.
+ *
+ * @property algorithm - `"token-bucket"` allows bursts of up to `limit` requests and refills
+ * continuously; `"sliding-window"` allows `limit` requests over any `window`, approximated
+ * from the counts of the current and previous windows.
+ * @property limit - The quota: the number of requests allowed per window.
+ * @property window - The window, in seconds.
+ * @property policy - The name of the policy in the `RateLimit` headers. Defaults to
+ * `"default"`.
+ * @property store - The storage of the state. Defaults to a new {@link createMemoryStore}.
+ * @property clock - The clock. Defaults to {@link SYSTEM_CLOCK}.
+ */
+export type RateLimitOptions = {
+    readonly algorithm: "token-bucket" | "sliding-window";
+    readonly limit: number;
+    readonly window: number;
+    readonly policy?: string;
+    readonly store?: RateLimitStore;
+    readonly clock?: RateLimitClock;
+};
+
+/**
+ * Result of {@link RateLimiter.consume}.
+ *
+ * Both variants carry the `RateLimit` and `RateLimit-Policy` headers
+ * ([draft-ietf-httpapi-ratelimit-headers](https://datatracker.ietf.org/doc/draft-ietf-httpapi-ratelimit-headers/));
+ * a denial adds `Retry-After` and the `TOO_MANY_REQUESTS` status.
+ *
+ * @property remaining - The number of requests left in the quota.
+ * @property reset - The number of seconds until the quota is fully restored.
+ * @property retryAfter - The number of seconds to wait before retrying.
+ */
+export type RateLimitResult =
+    | {
+          readonly allowed: true;
+          readonly limit: number;
+          readonly remaining: number;
+          readonly reset: number;
+          readonly headers: Headers;
+      }
+    | {
+          readonly allowed: false;
+          readonly status: typeof TOO_MANY_REQUESTS;
+          readonly limit: number;
+          readonly remaining: number;
+          readonly reset: number;
+          readonly retryAfter: number;
+          readonly headers: Headers;
+      };
+
+/**
+ * A rate limiter, as created by {@link createRateLimiter}.
+ */
+export type RateLimiter = {
+    /**
+     * Consumes `cost` requests from the quota of a client.
+     *
+     * @param key - The client identifier, e.g. an API key or an IP address.
+     * @param cost - The number of requests to consume. Defaults to `1`.
+     */
+    readonly consume: (
+        key: string,
+        cost?: number,
+    ) => Promise<RateLimitResult>;
+
+    /**
+     * Restores the full quota of a client.
+     */
+    readonly reset: (key: string) => Promise<void>;
+};
+
+type MemoryEntry = {
+    readonly value: number;
+    readonly expires: number;
+};
+
+/**
+ * Creates an in-process store, suitable for a single instance and for tests. Expired
+ * entries are removed as the store is used.
+ *
+ * @param clock - The clock used to expire entries; share it with the limiter in tests.
+ *
+ * @example
+ * ```
+ * let now = 0;
+ * const clock = { now: () => now };
+ * const limiter = createRateLimiter({
+ *     algorithm: "token-bucket",
+ *     limit: 10,
+ *     window: 60,
+ *     store: createMemoryStore(clock),
+ *     clock,
+ * });
+ * ```
+ */
+export const createMemoryStore = (
+    clock: RateLimitClock = SYSTEM_CLOCK,
+): RateLimitStore => {
+    // One map per TTL: re-inserting an entry on each update keeps every map ordered by
+    // expiry, even when limiters with different windows share the store.
+    const entriesByTTL = new Map<number, Map<string, MemoryEntry>>();
+
+    const prune = (now: number) => {
+        for (const [ttl, entries] of entriesByTTL) {
+            for (const [key, entry] of entries) {
+                if (entry.expires > now) {
+                    break;
+                }
+                entries.delete(key);
+            }
+            if (entries.size === 0) {
+                entriesByTTL.delete(ttl);
+            }
+        }
+    };
+
+    const remove = (key: string) => {
+        for (const entries of entriesByTTL.values()) {
+            entries.delete(key);
+        }
+    };
+
+    const find = (key: string, now: number) => {
+        for (const entries of entriesByTTL.values()) {
+            const entry = entries.get(key);
+            if (entry !== undefined && entry.expires > now) {
+                return entry;
+            }
+        }
+
+        return undefined;
+    };
+
+    return Object.freeze({
+        increment: async (
+            key: string,
+            amount: number,
+            {
+                ttl,
+                floor = 0,
+                ceiling = Infinity,
+            }: RateLimitIncrementOptions,
+        ) => {
+            const now = clock.now();
+            prune(now);
+
+            const value = Math.max(find(key, now)?.value ?? floor, floor);
+            if (value + amount > ceiling) {
+                return { value, applied: false };
+            }
+
+            remove(key);
+            const entries = entriesByTTL.get(ttl) ?? new Map();
+            entries.set(key, { value: value + amount, expires: now + ttl });
+            entriesByTTL.set(ttl, entries);
+
+            return { value: value + amount, applied: true };
+        },
+        get: async (key: string) => find(key, clock.now())?.value,
+        delete: async (key: string) => remove(key),
+    });
+};
+
+const quote = (value: string) =>
+    `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+/**
+ * Creates a rate limiter producing `TOO_MANY_REQUESTS` decisions with the `Retry-After`,
+ * `RateLimit` and `RateLimit-Policy` headers.
+ *
+ * @param options - The algorithm, quota, window, store and clock.
+ *
+ * @throws {RangeError} When the limit or the window is not positive, or when a request costs
+ * more than the limit.
+ *
+ * @example
+ * ```
+ * const limiter = createRateLimiter({ algorithm: "sliding-window", limit: 100, window: 60 });
+ *
+ * const result = await limiter.consume(apiKey);
+ * if (!result.allowed) {
+ *     return tooManyRequests({ retryAfter: result.retryAfter, headers: result.headers });
+ * }
+ * // RateLimit-Policy: "default";q=100;w=60
+ * // RateLimit: "default";r=99;t=60
+ * ```
+ */
+export const createRateLimiter = (
+    options: RateLimitOptions,
+): RateLimiter => {
+    const {
+        algorithm,
+        limit,
+        window,
+        policy = "default",
+        clock = SYSTEM_CLOCK,
+    } = options;
+    const store = options.store ?? createMemoryStore(clock);
+    if (!(limit > 0) || !(window > 0)) {
+        throw new RangeError(
+            "The rate limit and its window must be positive.",
+        );
+    }
+
+    const windowMs = window * 1000;
+
+    // Rounds milliseconds to whole seconds, ignoring floating-point noise.
+    const toSeconds = (milliseconds: number) =>
+        Math.ceil(Math.round(milliseconds) / 1000);
+
+    const decide = (
+        estimate: number,
+        allowed: boolean,
+        reset: number,
+        retryAfter: number,
+    ): RateLimitResult => {
+        const remaining = Math.max(0, Math.floor(limit - estimate));
+        const headers = new Headers({
+            "RateLimit-Policy": `${quote(policy)};q=${limit};w=${window}`,
+            RateLimit: `${quote(policy)};r=${remaining};t=${toSeconds(reset)}`,
+        });
+        if (allowed) {
+            return {
+                allowed,
+                limit,
+                remaining,
+                reset: toSeconds(reset),
+                headers,
+            };
+        }
+
+        headers.set("Retry-After", formatRetryAfter(toSeconds(retryAfter)));
+
+        return {
+            allowed,
+            status: TOO_MANY_REQUESTS,
+            limit,
+            remaining,
+            reset: toSeconds(reset),
+            retryAfter: toSeconds(retryAfter),
+            headers,
+        };
+    };
+
+    // The token bucket is kept as its theoretical arrival time (GCRA): the time at which
+    // the bucket is full again. Each request pushes it by the time to refill its cost.
+    const consumeTokenBucket = async (key: string, cost: number) => {
+        const now = clock.now();
+        const interval = windowMs / limit;
+        const { value: full, applied } = await store.increment(
+            key,
+            cost * interval,
+            { ttl: windowMs, floor: now, ceiling: now + windowMs },
+        );
+
+        return decide(
+            (full - now) / interval,
+            applied,
+            full - now,
+            full + cost * interval - (now + windowMs),
+        );
+    };
+
+    const windowKeys = (key: string, now: number) => {
+        const start = now - (now % windowMs);
+
+        return {
+            start,
+            current: `${key}:${start}`,
+            previous: `${key}:${start - windowMs}`,
+        };
+    };
+
+    const consumeSlidingWindow = async (key: string, cost: number) => {
+        const now = clock.now();
+        const keys = windowKeys(key, now);
+        const previous = (await store.get(keys.previous)) ?? 0;
+        const elapsed = now - keys.start;
+        const weight = 1 - elapsed / windowMs;
+        const { value: current, applied } = await store.increment(
+            keys.current,
+            cost,
+            { ttl: windowMs * 2, ceiling: limit - previous * weight },
+        );
+
+        // Wait until the weighted count of the previous window has decayed enough, moving
+        // into the next window when the current one alone exceeds the quota.
+        const retryAfter =
+            current + cost <= limit
+                ? Math.max(
+                      0,
+                      (1 - (limit - current - cost) / previous) * windowMs -
+                          elapsed,
+                  )
+                : windowMs -
+                  elapsed +
+                  Math.max(0, 1 - (limit - cost) / current) * windowMs;
+
+        return decide(
+            previous * weight + current,
+            applied,
+            current > 0 ? windowMs * 2 - elapsed : windowMs - elapsed,
+            retryAfter,
+        );
+    };
+
+    return Object.freeze({
+        consume: async (key: string, cost = 1) => {
+            if (!(cost > 0) || cost > limit) {
+                throw new RangeError(
+                    `The cost of a request must be between 0 and the limit of ${limit}.`,
+                );
+            }
+
+            return algorithm === "token-bucket"
+                ? consumeTokenBucket(key, cost)
+                : consumeSlidingWindow(key, cost);
+        },
+        reset: async (key: string) => {
+            const keys = windowKeys(key, clock.now());
+            await (algorithm === "token-bucket"
+                ? store.delete(key)
+                : Promise.all([
+                      store.delete(keys.current),
+                      store.delete(keys.previous),
+                  ]));
+        },
+    });
+};
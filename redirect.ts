@@ -0,0 +1,357 @@
+import {
+    FOUND,
+    MOVED_PERMANENTLY,
+    PERMANENT_REDIRECT,
+    SEE_OTHER,
+    TEMPORARY_REDIRECT,
+    USE_PROXY,
+    UNUSED,
+    type HTTPStatus,
+} from "./http-status";
+import {
+    redirect,
+    type RedirectResponseStatus,
+    type ResponseOptions,
+} from "./responses";
+
+/**
+ * What a redirection means, from which {@link redirectStatus} picks the status.
+ *
+ * @property permanent - Whether clients should replace the original URL with the new one
+ * (e.g. update bookmarks, let search engines move ranking). Defaults to `false`.
+ * @property method - `"preserve"` re-sends the same method and body to the new URL;
+ * `"get"` makes the client fetch the new URL with `GET`, as after a form submission.
+ * Defaults to `"preserve"`.
+ */
+export type RedirectIntent = {
+    readonly permanent?: boolean;
+    readonly method?: "preserve" | "get";
+};
+
+/**
+ * The status constant matching a {@link RedirectIntent}.
+ */
+export type RedirectStatusFor<Intent extends RedirectIntent> =
+    Intent["permanent"] extends true
+        ? Intent["method"] extends "get"
+            ? typeof MOVED_PERMANENTLY
+            : typeof PERMANENT_REDIRECT
+        : Intent["method"] extends "get"
+          ? typeof SEE_OTHER
+          : typeof TEMPORARY_REDIRECT;
+
+/**
+ * Options of {@link normalizeLocation}.
+ *
+ * @property base - The URL of the current request. Relative targets are resolved against it
+ * and its origin is always allowed.
+ * @property allowedOrigins - The other origins a redirection may point to, e.g.
+ * `["https://login.example.com"]`. When set, targets on any other origin are rejected, which
+ * prevents open redirects.
+ */
+export type LocationOptions = {
+    readonly base?: string | URL;
+    readonly allowedOrigins?: readonly string[];
+};
+
+/**
+ * Picks the redirection status matching an intent
+ * ([RFC 9110 §15.4](https://httpwg.org/specs/rfc9110.html#status.3xx)):
+ *
+ * | | Preserve method | Switch to `GET` |
+ * | --- | --- | --- |
+ * | Temporary | `TEMPORARY_REDIRECT` (307) | `SEE_OTHER` (303) |
+ * | Permanent | `PERMANENT_REDIRECT` (308) | `MOVED_PERMANENTLY` (301) |
+ *
+ * `FOUND` (302) is never picked: clients may or may not switch a `POST` to `GET` after it.
+ *
+ * @param intent - Whether the redirection is permanent and whether it preserves the method.
+ *
+ * @example
+ * ```
+ * redirectStatus({ method: "get" }); // SEE_OTHER, e.g. after a POST
+ * redirectStatus({ permanent: true }); // PERMANENT_REDIRECT
+ * ```
+ */
+export const redirectStatus = <const Intent extends RedirectIntent = {}>(
+    intent: Intent = {} as Intent,
+): RedirectStatusFor<Intent> =>
+    (intent.permanent
+        ? intent.method === "get"
+            ? MOVED_PERMANENTLY
+            : PERMANENT_REDIRECT
+        : intent.method === "get"
+          ? SEE_OTHER
+          : TEMPORARY_REDIRECT) as RedirectStatusFor<Intent>;
+
+/**
+ * Validates and normalizes the target of a redirection for the `Location` header.
+ *
+ * Targets with control characters or whitespace (header injection), schemes other than
+ * `http` and `https` (e.g. `javascript:`), and origins outside `allowedOrigins` are
+ * rejected. Protocol-relative targets such as `//evil.example` count as other origins.
+ *
+ * @param location - An absolute URL, or a reference relative to `base`.
+ * @param options - The base URL and the allowed origins.
+ *
+ * @returns The percent-encoded target: absolute when `location` is absolute or `base` is set,
+ * otherwise an absolute path.
+ *
+ * @throws {TypeError} When the target is invalid or not allowed.
+ *
+ * @example
+ * ```
+ * normalizeLocation("/search?q=café"); // "/search?q=caf%C3%A9"
+ * normalizeLocation("https://evil.example", { base: request.url, allowedOrigins: [] }); // throws
+ * ```
+ */
+export const normalizeLocation = (
+    location: string | URL,
+    options: LocationOptions = {},
+): string => {
+    const value = String(location);
+    if (value === "" || /[\s\x00-\x1f\x7f]/.test(value)) {
+        throw new TypeError(
+            `Invalid redirect target: ${JSON.stringify(value)}`,
+        );
+    }
+
+    // A placeholder origin resolves relative targets when no base is given.
+    const placeholder = "http://placeholder.invalid";
+    const base = options.base ?? placeholder;
+    let url: URL;
+    try {
+        url = new URL(value, base);
+    } catch {
+        throw new TypeError(
+            `Invalid redirect target: ${JSON.stringify(value)}`,
+        );
+    }
+
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+        throw new TypeError(
+            `Unsupported redirect scheme: ${JSON.stringify(url.protocol)}`,
+        );
+    }
+
+    const origin = new URL(base).origin;
+    if (
+        options.allowedOrigins !== undefined &&
+        url.origin !== origin &&
+        !options.allowedOrigins.some(
+            (allowed) => new URL(allowed).origin === url.origin,
+        )
+    ) {
+        throw new TypeError(`Redirects to ${url.origin} are not allowed.`);
+    }
+
+    return url.origin === placeholder && options.base === undefined
+        ? `${url.pathname}${url.search}${url.hash}`
+        : url.href;
+};
+
+/**
+ * Builds a redirection response from an intent, with a validated `Location` header.
+ *
+ * @param location - The target of the redirection.
+ * @param intent - Whether the redirection is permanent and whether it preserves the method.
+ * @param options - The base URL, the allowed origins and additional response headers.
+ *
+ * @throws {TypeError} When the target is invalid or not allowed.
+ *
+ * @example
+ * ```
+ * // After a successful form POST, show the created order with a GET.
+ * return redirectTo(`/orders/${order.id}`, { method: "get" });
+ * ```
+ */
+export const redirectTo = (
+    location: string | URL,
+    intent: RedirectIntent = {},
+    options: ResponseOptions & LocationOptions = {},
+): Response =>
+    redirect(
+        redirectStatus(intent) as RedirectResponseStatus,
+        normalizeLocation(location, options),
+        options,
+    );
+
+/**
+ * Explains why a redirection status should not be used, for the obsolete `USE_PROXY` and
+ * `UNUSED` codes.
+ *
+ * @param status - A status code or any `HTTPStatus`.
+ *
+ * @returns The warning, or `undefined` when the status is fine.
+ *
+ * @example
+ * ```
+ * redirectWarning(USE_PROXY);
+ * // "305 Use Proxy is deprecated for security reasons and is not followed by clients."
+ * ```
+ */
+export const redirectWarning = (
+    status: number | HTTPStatus,
+): string | undefined => {
+    const code = typeof status === "number" ? status : status.status;
+    if (code === USE_PROXY.status) {
+        return `${USE_PROXY.status} ${USE_PROXY.statusText} is deprecated for security reasons and is not followed by clients.`;
+    }
+
+    if (code === UNUSED.status) {
+        return `${UNUSED.status} is reserved and no longer used; it is not a redirection.`;
+    }
+
+    return undefined;
+};
+
+/**
+ * Options of {@link followRedirects}.
+ *
+ * @property fetch - The `fetch` implementation to use. Defaults to the global `fetch`.
+ * @property maxRedirects - The largest number of redirections to follow. Defaults to `20`,
+ * like browsers.
+ * @property onRedirect - Called before following each redirection.
+ * @property onWarning - Called when the server answers with an obsolete redirection status.
+ * Defaults to ignoring the warning.
+ */
+export type FollowRedirectsOptions = {
+    readonly fetch?: (request: Request) => Promise<Response>;
+    readonly maxRedirects?: number;
+    readonly onRedirect?: (redirect: {
+        readonly response: Response;
+        readonly method: string;
+        readonly url: string;
+    }) => void;
+    readonly onWarning?: (message: string) => void;
+};
+
+const FOLLOWED_STATUSES: ReadonlySet<number> = new Set<number>([
+    MOVED_PERMANENTLY.status,
+    FOUND.status,
+    SEE_OTHER.status,
+    TEMPORARY_REDIRECT.status,
+    PERMANENT_REDIRECT.status,
+]);
+
+const CONTENT_HEADERS = [
+    "Content-Type",
+    "Content-Length",
+    "Content-Encoding",
+    "Content-Language",
+    "Content-Location",
+];
+
+const CREDENTIAL_HEADERS = [
+    "Authorization",
+    "Cookie",
+    "Proxy-Authorization",
+];
+
+/**
+ * Fetches a resource, following redirections with the method rewriting rules of
+ * [RFC 9110 §15.4](https://httpwg.org/specs/rfc9110.html#status.3xx):
+ *
+ * - `301` and `302` switch `POST` to `GET`, and keep other methods.
+ * - `303` switches every method but `HEAD` to `GET`.
+ * - `307` and `308` keep the method and re-send the body.
+ *
+ * Content headers are dropped when the body is, and credentials when the origin changes.
+ * Other statuses, including the obsolete `USE_PROXY`, are returned as is.
+ *
+ * A redirection back to a request already made, with the same method, URL and body, is a
+ * loop and fails at once; `maxRedirects` caps the other chains.
+ *
+ * @param input - The resource to fetch.
+ * @param init - The request options; `redirect` is ignored.
+ * @param options - The `fetch` implementation, the redirection limit and the callbacks.
+ *
+ * @returns The first response that is not followed.
+ *
+ * @throws {TypeError} When a redirection loops back to a request already made, or when
+ * there are more than `maxRedirects` redirections.
+ *
+ * @example
+ * ```
+ * const response = await followRedirects("https://example.com/login", {
+ *     method: "POST",
+ *     body: form,
+ * });
+ * ```
+ */
+export const followRedirects = async (
+    input: RequestInfo | URL,
+    init?: RequestInit,
+    options: FollowRedirectsOptions = {},
+): Promise<Response> => {
+    const {
+        fetch: send = (request: Request) => fetch(request),
+        maxRedirects = 20,
+        onRedirect,
+        onWarning = () => {},
+    } = options;
+    const original = new Request(input, { ...init, redirect: "manual" });
+    const body =
+        original.body === null ? null : await original.arrayBuffer();
+
+    let request = original;
+    let keepBody = body !== null;
+    const keyOf = (method: string, url: string) =>
+        `${method} ${url}${keepBody ? " (with body)" : ""}`;
+    const visited = new Set([keyOf(original.method, original.url)]);
+    for (let redirects = 0; ; redirects++) {
+        const response = await send(request);
+        const warning = redirectWarning(response.status);
+        if (warning !== undefined) {
+            onWarning(warning);
+        }
+
+        const location = response.headers.get("Location");
+        if (!FOLLOWED_STATUSES.has(response.status) || location === null) {
+            return response;
+        }
+
+        if (redirects >= maxRedirects) {
+            throw new TypeError(
+                `Too many redirects: more than ${maxRedirects}.`,
+            );
+        }
+
+        const url = new URL(location, request.url).href;
+        const method =
+            (response.status === SEE_OTHER.status &&
+                request.method !== "HEAD") ||
+            ((response.status === MOVED_PERMANENTLY.status ||
+                response.status === FOUND.status) &&
+                request.method === "POST")
+                ? "GET"
+                : request.method;
+        keepBody &&= method === request.method;
+
+        const key = keyOf(method, url);
+        if (visited.has(key)) {
+            throw new TypeError(
+                `Redirect loop detected: ${[...visited, key].join(" → ")}`,
+            );
+        }
+        visited.add(key);
+
+        const headers = new Headers(request.headers);
+        if (!keepBody) {
+            CONTENT_HEADERS.forEach((name) => headers.delete(name));
+        }
+        if (new URL(url).origin !== new URL(request.url).origin) {
+            CREDENTIAL_HEADERS.forEach((name) => headers.delete(name));
+        }
+
+        onRedirect?.({ response, method, url });
+        await response.body?.cancel();
+        request = new Request(url, {
+            method,
+            headers,
+            body: keepBody ? body : null,
+            redirect: "manual",
+            signal: original.signal,
+        });
+    }
+};
@@ -0,0 +1,245 @@
+import * as Constants from "./http-status";
+
+/**
+ * The name of every status constant exported by `http-status.ts` (e.g. `"NOT_FOUND"`).
+ */
+export type StatusName = keyof typeof Constants;
+
+/**
+ * Union of every status constant exported by `http-status.ts`, each one keeping its
+ * literal `status` and `statusText` types.
+ */
+export type KnownHTTPStatus = (typeof Constants)[StatusName];
+
+/**
+ * Union of every known numeric status code (e.g. `200 | 201 | ... | 511`).
+ */
+export type StatusCode = KnownHTTPStatus["status"];
+
+/**
+ * Union of every known status text (e.g. `"OK" | "Created" | ... | "Network Authentication Required"`).
+ */
+export type StatusText = KnownHTTPStatus["statusText"];
+
+/**
+ * Resolves the exact status constant type for a known status code.
+ *
+ * @example
+ * ```
+ * type T = StatusByCode<404>;
+ * // type T = {
+ * //     readonly status: 404;
+ * //     readonly statusText: "Not Found";
+ * // }
+ * ```
+ */
+export type StatusByCode<Code extends number> = Extract<
+    KnownHTTPStatus,
+    { readonly status: Code }
+>;
+
+/**
+ * Resolves the exact status constant type for a known status text.
+ */
+export type StatusByText<Text extends string> = Extract<
+    KnownHTTPStatus,
+    { readonly statusText: Text }
+>;
+
+/**
+ * Represents a status code that is not defined by this library.
+ *
+ * Unknown statuses carry an empty `statusText` (a valid reason phrase in HTTP/1.1) and an
+ * `unknown` marker, so callers are forced to handle non-standard codes explicitly.
+ *
+ * @property status - The numeric status code as received.
+ * @property statusText - Always an empty string.
+ * @property unknown - Always `true`; absent on known status constants.
+ */
+export type UnknownHTTPStatus<Code extends number = number> = {
+    readonly status: Code;
+    readonly statusText: "";
+    readonly unknown: true;
+};
+
+/**
+ * Return type of {@link fromCode}: the exact constant for a known literal code, an
+ * {@link UnknownHTTPStatus} for an unknown literal code, and a union of both for a
+ * plain `number`.
+ */
+export type FromCode<Code extends number> = number extends Code
+    ? KnownHTTPStatus | UnknownHTTPStatus
+    : Code extends StatusCode
+      ? StatusByCode<Code>
+      : UnknownHTTPStatus<Code>;
+
+/**
+ * Resolves the status constant whose status text matches a text case-insensitively, or
+ * `never` when there is none.
+ */
+type StatusByTextIgnoringCase<Text extends string> =
+    KnownHTTPStatus extends infer Status
+        ? Status extends KnownHTTPStatus
+            ? Lowercase<Status["statusText"]> extends Lowercase<Text>
+                ? Status
+                : never
+            : never
+        : never;
+
+/**
+ * Return type of {@link fromStatusText}: the exact constant for a known literal text in
+ * any case, `undefined` for an unknown literal text, and a union of both for a plain
+ * `string`.
+ */
+export type FromStatusText<Text extends string> = string extends Text
+    ? KnownHTTPStatus | undefined
+    : [StatusByTextIgnoringCase<Text>] extends [never]
+      ? undefined
+      : StatusByTextIgnoringCase<Text>;
+
+/**
+ * Return type of {@link fromName}: the exact constant for a known literal name,
+ * `undefined` for an unknown literal name, and a union of both for a plain `string`.
+ */
+export type FromName<Name extends string> = Name extends StatusName
+    ? (typeof Constants)[Name]
+    : string extends Name
+      ? KnownHTTPStatus | undefined
+      : undefined;
+
+/**
+ * Frozen registry of every status constant, keyed by its numeric code.
+ *
+ * @example
+ * ```
+ * STATUS_BY_CODE[404];
+ * // { status: 404, statusText: "Not Found" }
+ * ```
+ */
+export const STATUS_BY_CODE: {
+    readonly [Code in StatusCode]: StatusByCode<Code>;
+} = Object.freeze(
+    Object.fromEntries(
+        Object.values(Constants).map((constant) => [
+            constant.status,
+            constant,
+        ]),
+    ),
+) as { readonly [Code in StatusCode]: StatusByCode<Code> };
+
+/**
+ * Frozen registry of every constant name, keyed by its numeric code.
+ *
+ * @example
+ * ```
+ * NAME_BY_CODE[404];
+ * // "NOT_FOUND"
+ * ```
+ */
+export const NAME_BY_CODE: {
+    readonly [Code in StatusCode]: StatusName;
+} = Object.freeze(
+    Object.fromEntries(
+        (Object.keys(Constants) as StatusName[]).map((name) => [
+            Constants[name].status,
+            name,
+        ]),
+    ),
+) as { readonly [Code in StatusCode]: StatusName };
+
+const byText: ReadonlyMap<string, KnownHTTPStatus> = new Map(
+    Object.values(Constants).map((constant) => [
+        constant.statusText.toLowerCase(),
+        constant,
+    ]),
+);
+
+const byName: ReadonlyMap<string, KnownHTTPStatus> = new Map(
+    (Object.keys(Constants) as StatusName[]).map((name) => [
+        name,
+        Constants[name],
+    ]),
+);
+
+/**
+ * Checks whether a status object is one of the constants known by this library.
+ *
+ * @param status - A status returned by {@link fromCode} or any other `HTTPStatus`.
+ *
+ * @returns `true` when the status is a known constant, narrowing away {@link UnknownHTTPStatus}.
+ */
+export const isKnownStatus = (status: {
+    readonly status: number;
+    readonly statusText: string;
+}): status is KnownHTTPStatus =>
+    Object.prototype.hasOwnProperty.call(STATUS_BY_CODE, status.status);
+
+/**
+ * Looks up a status constant by its numeric code.
+ *
+ * @param code - The numeric status code, e.g. `response.status`.
+ *
+ * @returns The matching constant, or an {@link UnknownHTTPStatus} when the code is not defined.
+ *
+ * @example
+ * ```
+ * const status = fromCode(404);
+ * // const status: {
+ * //     readonly status: 404;
+ * //     readonly statusText: "Not Found";
+ * // }
+ *
+ * const other = fromCode(response.status);
+ * if (!isKnownStatus(other)) {
+ *     // other.unknown === true
+ * }
+ * ```
+ */
+export const fromCode = <Code extends number>(code: Code): FromCode<Code> =>
+    (Object.prototype.hasOwnProperty.call(STATUS_BY_CODE, code)
+        ? STATUS_BY_CODE[code as StatusCode]
+        : Object.freeze({
+              status: code,
+              statusText: "",
+              unknown: true,
+          })) as FromCode<Code>;
+
+/**
+ * Looks up a status constant by its status text. The comparison is case-insensitive, so
+ * `"not found"` and `"Not Found"` both resolve to `NOT_FOUND`.
+ *
+ * @param statusText - The reason phrase, e.g. `response.statusText`.
+ *
+ * @returns The matching constant, or `undefined` when no constant has this text.
+ */
+export const fromStatusText = <Text extends string>(
+    statusText: Text,
+): FromStatusText<Text> =>
+    byText.get(statusText.toLowerCase()) as FromStatusText<Text>;
+
+/**
+ * Looks up a status constant by its exported name.
+ *
+ * @param name - The constant name, e.g. `"NOT_FOUND"`.
+ *
+ * @returns The matching constant, or `undefined` when no constant has this name.
+ */
+export const fromName = <Name extends string>(name: Name): FromName<Name> =>
+    byName.get(name) as FromName<Name>;
+
+/**
+ * Returns the exported constant name of a known status.
+ *
+ * @param status - A known status constant or code.
+ *
+ * @returns The constant name, e.g. `"NOT_FOUND"`, or `undefined` for unknown codes.
+ */
+export const nameOf = (
+    status: number | { readonly status: number },
+): StatusName | undefined => {
+    const code = typeof status === "number" ? status : status.status;
+
+    return Object.prototype.hasOwnProperty.call(NAME_BY_CODE, code)
+        ? NAME_BY_CODE[code as StatusCode]
+        : undefined;
+};
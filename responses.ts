@@ -0,0 +1,468 @@
+import {
+    ACCEPTED,
+    CREATED,
+    FOUND,
+    METHOD_NOT_ALLOWED,
+    MOVED_PERMANENTLY,
+    NO_CONTENT,
+    NOT_MODIFIED,
+    OK,
+    PERMANENT_REDIRECT,
+    PROXY_AUTHENTICATION_REQUIRED,
+    RESET_CONTENT,
+    SEE_OTHER,
+    TEMPORARY_REDIRECT,
+    TOO_MANY_REQUESTS,
+    UNAUTHORIZED,
+    type HTTPStatus,
+} from "./http-status";
+import type { StatusCode } from "./registry";
+
+/**
+ * Options shared by every response factory.
+ *
+ * @property headers - Additional response headers.
+ */
+export type ResponseOptions = {
+    readonly headers?: HeadersInit;
+};
+
+/**
+ * The redirection statuses accepted by {@link redirect}.
+ */
+export type RedirectResponseStatus =
+    | typeof MOVED_PERMANENTLY
+    | typeof FOUND
+    | typeof SEE_OTHER
+    | typeof TEMPORARY_REDIRECT
+    | typeof PERMANENT_REDIRECT;
+
+const REDIRECT_CODES: ReadonlySet<number> = new Set<number>([
+    MOVED_PERMANENTLY.status,
+    FOUND.status,
+    SEE_OTHER.status,
+    TEMPORARY_REDIRECT.status,
+    PERMANENT_REDIRECT.status,
+]);
+
+/**
+ * Headers that must be sent with a status, following
+ * [RFC 9110 §15](https://httpwg.org/specs/rfc9110.html#overview.of.status.codes): `Location`
+ * with the redirections, `WWW-Authenticate` with `401`, `Allow` with `405` and
+ * `Proxy-Authenticate` with `407`.
+ *
+ * @example
+ * ```
+ * REQUIRED_HEADERS[405]; // ["Allow"]
+ * ```
+ */
+export const REQUIRED_HEADERS: {
+    readonly [Code in StatusCode]?: readonly string[];
+} = Object.freeze({
+    301: Object.freeze(["Location"]),
+    302: Object.freeze(["Location"]),
+    303: Object.freeze(["Location"]),
+    307: Object.freeze(["Location"]),
+    308: Object.freeze(["Location"]),
+    401: Object.freeze(["WWW-Authenticate"]),
+    405: Object.freeze(["Allow"]),
+    407: Object.freeze(["Proxy-Authenticate"]),
+});
+
+/**
+ * Headers that should be sent with a status, but whose absence does not make the response
+ * invalid: `Location` with `201`
+ * ([RFC 9110 §15.3.2](https://httpwg.org/specs/rfc9110.html#status.201)) and `Retry-After`
+ * with `429` ([RFC 6585 §4](https://www.rfc-editor.org/rfc/rfc6585#section-4)).
+ *
+ * @example
+ * ```
+ * RECOMMENDED_HEADERS[429]; // ["Retry-After"]
+ * ```
+ */
+export const RECOMMENDED_HEADERS: {
+    readonly [Code in StatusCode]?: readonly string[];
+} = Object.freeze({
+    201: Object.freeze(["Location"]),
+    429: Object.freeze(["Retry-After"]),
+});
+
+/**
+ * Checks whether a response with this status may carry content. Informational responses,
+ * `204 No Content`, `205 Reset Content` and `304 Not Modified` must not.
+ *
+ * @param status - A status code or any `HTTPStatus`.
+ */
+export const allowsBody = (status: number | HTTPStatus): boolean => {
+    const code = typeof status === "number" ? status : status.status;
+
+    return !(
+        (code >= 100 && code <= 199) ||
+        code === NO_CONTENT.status ||
+        code === RESET_CONTENT.status ||
+        code === NOT_MODIFIED.status
+    );
+};
+
+/**
+ * Returns the headers required by a status that are missing from a header list.
+ *
+ * @param status - A status code or any `HTTPStatus`.
+ * @param headers - The headers of the response.
+ */
+export const missingHeaders = (
+    status: number | HTTPStatus,
+    headers: HeadersInit | undefined,
+): string[] => {
+    const code = typeof status === "number" ? status : status.status;
+    const present = new Headers(headers);
+
+    return (REQUIRED_HEADERS[code as StatusCode] ?? []).filter(
+        (name) => !present.has(name),
+    );
+};
+
+/**
+ * Builds a Fetch `Response` for any status, checking at runtime that no content is sent
+ * with a status that forbids it and that every required header is present.
+ *
+ * Prefer the dedicated factories below, whose signatures enforce these rules at compile time.
+ *
+ * @param status - The status constant of the response.
+ * @param body - The response content.
+ * @param options - Additional response headers.
+ *
+ * @throws {TypeError} When the status forbids content or a required header is missing.
+ */
+export const respond = (
+    status: HTTPStatus,
+    body: BodyInit | null = null,
+    options: ResponseOptions = {},
+): Response => {
+    if (body !== null && !allowsBody(status)) {
+        throw new TypeError(
+            `A ${status.status} ${status.statusText} response must not have a body.`,
+        );
+    }
+
+    const missing = missingHeaders(status, options.headers);
+    if (missing.length > 0) {
+        throw new TypeError(
+            `A ${status.status} ${status.statusText} response requires the ${missing.join(", ")} header.`,
+        );
+    }
+
+    return new Response(body, {
+        headers: options.headers,
+        status: status.status,
+        statusText: status.statusText,
+    });
+};
+
+const withHeader = (
+    options: ResponseOptions,
+    name: string,
+    value: string,
+): ResponseOptions => {
+    const headers = new Headers(options.headers);
+    headers.set(name, value);
+
+    return { ...options, headers };
+};
+
+const requireOption = <Value>(
+    factory: string,
+    option: string,
+    value: Value | undefined,
+): Value => {
+    if (value === undefined || value === null || value === "") {
+        throw new TypeError(
+            `${factory}() requires the "${option}" option.`,
+        );
+    }
+
+    return value;
+};
+
+/**
+ * Checks whether a value is a body rather than options: a string or any object `Response`
+ * accepts as a body, such as a `Blob`, a buffer or a stream.
+ */
+const isBody = (value: unknown): boolean =>
+    typeof value !== "object" ||
+    value === null ||
+    value instanceof Blob ||
+    value instanceof ArrayBuffer ||
+    ArrayBuffer.isView(value) ||
+    value instanceof ReadableStream ||
+    value instanceof FormData ||
+    value instanceof URLSearchParams ||
+    Symbol.asyncIterator in value ||
+    Symbol.iterator in value;
+
+const rejectBody = (factory: string, options: unknown) => {
+    if (options !== undefined && isBody(options)) {
+        throw new TypeError(`${factory}() does not accept a body.`);
+    }
+};
+
+/**
+ * Builds a [`200 OK`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/200) response.
+ *
+ * @param body - The response content.
+ * @param options - Additional response headers.
+ */
+export const ok = (
+    body: BodyInit | null = null,
+    options: ResponseOptions = {},
+): Response => respond(OK, body, options);
+
+/**
+ * Builds a [`201 Created`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/201) response
+ * with the `Location` of the new resource.
+ *
+ * @param body - The response content, usually a representation of the new resource.
+ * @param options - The `location` of the new resource and additional response headers.
+ *
+ * @example
+ * ```
+ * return created(JSON.stringify(article), { location: `/articles/${article.id}` });
+ * ```
+ */
+export const created = (
+    body: BodyInit | null,
+    options: ResponseOptions & { readonly location: string | URL },
+): Response =>
+    respond(
+        CREATED,
+        body,
+        withHeader(
+            options,
+            "Location",
+            String(requireOption("created", "location", options?.location)),
+        ),
+    );
+
+/**
+ * Builds a [`202 Accepted`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/202) response.
+ *
+ * @param body - The response content, usually a way to monitor the request.
+ * @param options - Additional response headers.
+ */
+export const accepted = (
+    body: BodyInit | null = null,
+    options: ResponseOptions = {},
+): Response => respond(ACCEPTED, body, options);
+
+/**
+ * Builds a [`204 No Content`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/204) response,
+ * which cannot carry content.
+ *
+ * @param options - Additional response headers.
+ */
+export const noContent = (options: ResponseOptions = {}): Response => {
+    rejectBody("noContent", options);
+
+    return respond(NO_CONTENT, null, options);
+};
+
+/**
+ * Builds a [`304 Not Modified`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/304) response,
+ * which cannot carry content.
+ *
+ * @param options - Additional response headers, such as `ETag` or `Cache-Control`.
+ */
+export const notModified = (options: ResponseOptions = {}): Response => {
+    rejectBody("notModified", options);
+
+    return respond(NOT_MODIFIED, null, options);
+};
+
+/**
+ * Builds a redirection response with the `Location` header.
+ *
+ * @param status - One of `MOVED_PERMANENTLY`, `FOUND`, `SEE_OTHER`, `TEMPORARY_REDIRECT` or
+ * `PERMANENT_REDIRECT`.
+ * @param location - The target of the redirection.
+ * @param options - Additional response headers.
+ *
+ * @example
+ * ```
+ * return redirect(SEE_OTHER, `/orders/${order.id}`);
+ * ```
+ */
+export const redirect = (
+    status: RedirectResponseStatus,
+    location: string | URL,
+    options: ResponseOptions = {},
+): Response => {
+    if (!REDIRECT_CODES.has(status?.status)) {
+        throw new TypeError(
+            `redirect() does not accept the ${status?.status} status.`,
+        );
+    }
+
+    return respond(
+        status,
+        null,
+        withHeader(
+            options,
+            "Location",
+            String(requireOption("redirect", "location", location)),
+        ),
+    );
+};
+
+/**
+ * Builds a [`401 Unauthorized`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/401) response
+ * with the `WWW-Authenticate` challenges.
+ *
+ * @param options - The `wwwAuthenticate` challenges and additional response headers.
+ * @param body - The response content.
+ *
+ * @example
+ * ```
+ * return unauthorized({ wwwAuthenticate: 'Bearer realm="api"' });
+ * ```
+ */
+export const unauthorized = (
+    options: ResponseOptions & {
+        readonly wwwAuthenticate: string | readonly string[];
+    },
+    body: BodyInit | null = null,
+): Response =>
+    respond(
+        UNAUTHORIZED,
+        body,
+        withHeader(
+            options,
+            "WWW-Authenticate",
+            [
+                requireOption(
+                    "unauthorized",
+                    "wwwAuthenticate",
+                    options?.wwwAuthenticate,
+                ),
+            ]
+                .flat()
+                .join(", "),
+        ),
+    );
+
+/**
+ * Builds a [`405 Method Not Allowed`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/405)
+ * response with the `Allow` header.
+ *
+ * @param options - The methods supported by the resource and additional response headers.
+ * @param body - The response content.
+ *
+ * @example
+ * ```
+ * return methodNotAllowed({ allow: ["GET", "HEAD"] });
+ * ```
+ */
+export const methodNotAllowed = (
+    options: ResponseOptions & { readonly allow: readonly string[] },
+    body: BodyInit | null = null,
+): Response =>
+    respond(
+        METHOD_NOT_ALLOWED,
+        body,
+        withHeader(
+            options,
+            "Allow",
+            requireOption("methodNotAllowed", "allow", options?.allow)
+                .map((method) => method.toUpperCase())
+                .join(", "),
+        ),
+    );
+
+/**
+ * Builds a [`407 Proxy Authentication Required`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/407)
+ * response with the `Proxy-Authenticate` challenges.
+ *
+ * @param options - The `proxyAuthenticate` challenges and additional response headers.
+ * @param body - The response content.
+ */
+export const proxyAuthenticationRequired = (
+    options: ResponseOptions & {
+        readonly proxyAuthenticate: string | readonly string[];
+    },
+    body: BodyInit | null = null,
+): Response =>
+    respond(
+        PROXY_AUTHENTICATION_REQUIRED,
+        body,
+        withHeader(
+            options,
+            "Proxy-Authenticate",
+            [
+                requireOption(
+                    "proxyAuthenticationRequired",
+                    "proxyAuthenticate",
+                    options?.proxyAuthenticate,
+                ),
+            ]
+                .flat()
+                .join(", "),
+        ),
+    );
+
+/**
+ * Formats a [`Retry-After`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Retry-After)
+ * value from a number of seconds or a date.
+ *
+ * @param retryAfter - A delay in seconds or the date after which the client may retry.
+ *
+ * @throws {TypeError} When the delay is negative or the date is invalid.
+ */
+export const formatRetryAfter = (retryAfter: number | Date): string => {
+    if (retryAfter instanceof Date) {
+        if (Number.isNaN(retryAfter.getTime())) {
+            throw new TypeError("Retry-After must be a valid date.");
+        }
+
+        return retryAfter.toUTCString();
+    }
+
+    if (!Number.isFinite(retryAfter) || retryAfter < 0) {
+        throw new TypeError(
+            "Retry-After must be a non-negative number of seconds.",
+        );
+    }
+
+    return String(Math.ceil(retryAfter));
+};
+
+/**
+ * Builds a [`429 Too Many Requests`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/429)
+ * response with the `Retry-After` header.
+ *
+ * @param options - The delay in seconds or the date after which the client may retry, and
+ * additional response headers.
+ * @param body - The response content.
+ *
+ * @example
+ * ```
+ * return tooManyRequests({ retryAfter: 30 });
+ * ```
+ */
+export const tooManyRequests = (
+    options: ResponseOptions & { readonly retryAfter: number | Date },
+    body: BodyInit | null = null,
+): Response =>
+    respond(
+        TOO_MANY_REQUESTS,
+        body,
+        withHeader(
+            options,
+            "Retry-After",
+            formatRetryAfter(
+                requireOption(
+                    "tooManyRequests",
+                    "retryAfter",
+                    options?.retryAfter,
+                ),
+            ),
+        ),
+    );
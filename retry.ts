@@ -0,0 +1,322 @@
+import {
+    BAD_GATEWAY,
+    GATEWAY_TIMEOUT,
+    REQUEST_TIMEOUT,
+    SERVICE_UNAVAILABLE,
+    TOO_EARLY,
+    TOO_MANY_REQUESTS,
+    type HTTPStatus,
+} from "./http-status";
+
+/**
+ * Source of time used by the retry engine. Inject a fake clock to test retries without
+ * waiting.
+ *
+ * @property now - Returns the current time in milliseconds since the epoch.
+ * @property sleep - Resolves after the given number of milliseconds.
+ */
+export type RetryClock = {
+    readonly now: () => number;
+    readonly sleep: (milliseconds: number) => Promise<void>;
+};
+
+/**
+ * The clock backed by `Date.now()` and `setTimeout()`.
+ */
+export const SYSTEM_CLOCK: RetryClock = Object.freeze({
+    now: () => Date.now(),
+    sleep: (milliseconds: number) =>
+        new Promise<void>((resolve) => setTimeout(resolve, milliseconds)),
+});
+
+/**
+ * Options of the retry engine.
+ *
+ * @property retries - The maximum number of retries after the first attempt. Defaults to `3`.
+ * @property baseDelay - The delay before the first retry, in milliseconds. Defaults to `100`.
+ * @property maxDelay - The upper bound of the backoff delay, in milliseconds. Defaults to `30000`.
+ * @property factor - The multiplier applied to the delay after each retry. Defaults to `2`.
+ * @property jitter - `"full"` picks a random delay between zero and the backoff delay, `"none"`
+ * uses the backoff delay as is. Defaults to `"full"`.
+ * @property maxRetryAfter - The longest `Retry-After` delay to honor, in milliseconds. A longer
+ * delay stops retrying. Defaults to `maxDelay`.
+ * @property retryNonIdempotent - Whether to retry non-idempotent methods (e.g. `POST`) on statuses
+ * that do not guarantee the request was left unprocessed. Defaults to `false`.
+ * @property random - Returns a number in `[0, 1)`, used for jitter. Defaults to `Math.random`.
+ */
+export type RetryOptions = {
+    readonly retries?: number;
+    readonly baseDelay?: number;
+    readonly maxDelay?: number;
+    readonly factor?: number;
+    readonly jitter?: "full" | "none";
+    readonly maxRetryAfter?: number;
+    readonly retryNonIdempotent?: boolean;
+    readonly random?: () => number;
+};
+
+/**
+ * Statuses worth retrying: the failure is transient and a later attempt may succeed.
+ *
+ * Other `5XX` statuses such as `NOT_IMPLEMENTED` or `HTTP_VERSION_NOT_SUPPORTED` will fail
+ * again and are never retried.
+ */
+export const RETRYABLE_STATUSES: ReadonlySet<number> = new Set<number>([
+    REQUEST_TIMEOUT.status,
+    TOO_EARLY.status,
+    TOO_MANY_REQUESTS.status,
+    BAD_GATEWAY.status,
+    SERVICE_UNAVAILABLE.status,
+    GATEWAY_TIMEOUT.status,
+]);
+
+/**
+ * Retryable statuses which guarantee the server did not process the request, so that even a
+ * non-idempotent request can safely be sent again: the request was not fully received
+ * (`REQUEST_TIMEOUT`), was refused as early data (`TOO_EARLY`) or was rate limited
+ * (`TOO_MANY_REQUESTS`).
+ *
+ * `SERVICE_UNAVAILABLE` is not one of them: an overloaded server or a proxy may have
+ * started processing the request before failing.
+ */
+export const UNPROCESSED_STATUSES: ReadonlySet<number> = new Set<number>([
+    REQUEST_TIMEOUT.status,
+    TOO_EARLY.status,
+    TOO_MANY_REQUESTS.status,
+]);
+
+/**
+ * Idempotent request methods
+ * ([RFC 9110 §9.2.2](https://httpwg.org/specs/rfc9110.html#idempotent.methods)).
+ */
+export const IDEMPOTENT_METHODS: ReadonlySet<string> = new Set<string>([
+    "GET",
+    "HEAD",
+    "OPTIONS",
+    "TRACE",
+    "PUT",
+    "DELETE",
+]);
+
+/**
+ * Checks whether a status is worth retrying.
+ *
+ * @param status - A status code or any `HTTPStatus`, such as a `Response`.
+ */
+export const isRetryableStatus = (status: number | HTTPStatus): boolean =>
+    RETRYABLE_STATUSES.has(
+        typeof status === "number" ? status : status.status,
+    );
+
+const HTTP_DATE_START = /^(Mon|Tue|Wed|Thu|Fri|Sat|Sun)[a-z]*,? /;
+
+/**
+ * Parses a [`Retry-After`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Headers/Retry-After)
+ * header, in either its delta-seconds or its HTTP-date form.
+ *
+ * @param value - The header value.
+ * @param now - The current time in milliseconds since the epoch, used for HTTP-dates.
+ *
+ * @returns The delay in milliseconds, never negative, or `undefined` when the value is
+ * missing or invalid.
+ *
+ * @example
+ * ```
+ * parseRetryAfter("120", now); // 120000
+ * parseRetryAfter("Wed, 21 Oct 2015 07:28:00 GMT", now);
+ * ```
+ */
+export const parseRetryAfter = (
+    value: string | null | undefined,
+    now: number,
+): number | undefined => {
+    const trimmed = value?.trim();
+    if (!trimmed) {
+        return undefined;
+    }
+
+    if (/^\d+$/.test(trimmed)) {
+        return Number(trimmed) * 1000;
+    }
+
+    // Every HTTP-date form starts with the day name; `Date.parse` alone accepts "1.5".
+    const date = HTTP_DATE_START.test(trimmed) ? Date.parse(trimmed) : NaN;
+
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * Computes the exponential backoff delay before a retry.
+ *
+ * @param attempt - The number of the retry, starting at `1`.
+ * @param options - The backoff options.
+ *
+ * @returns The delay in milliseconds.
+ */
+export const backoffDelay = (
+    attempt: number,
+    options: RetryOptions = {},
+): number => {
+    const {
+        baseDelay = 100,
+        maxDelay = 30_000,
+        factor = 2,
+        jitter = "full",
+        random = Math.random,
+    } = options;
+    const delay = Math.min(maxDelay, baseDelay * factor ** (attempt - 1));
+
+    return jitter === "full" ? Math.floor(random() * delay) : delay;
+};
+
+/**
+ * Result of {@link shouldRetry}.
+ */
+export type RetryDecision =
+    | { readonly retry: true; readonly delay: number }
+    | {
+          readonly retry: false;
+          readonly reason: "status" | "method" | "retries" | "retry-after";
+      };
+
+/**
+ * Decides whether a response should be retried, and after which delay.
+ *
+ * A `Retry-After` header on the response takes precedence over the backoff delay.
+ *
+ * @param response - The status and headers of the response, such as a `Response`.
+ * @param request - The request method and the number of the upcoming retry, starting at `1`.
+ * @param options - The retry options.
+ * @param now - The current time in milliseconds since the epoch.
+ *
+ * @example
+ * ```
+ * shouldRetry(response, { method: "GET", attempt: 1 });
+ * // { retry: true, delay: 120000 } when the response is 503 with "Retry-After: 120"
+ * ```
+ */
+export const shouldRetry = (
+    response: HTTPStatus & { readonly headers?: Headers },
+    request: { readonly method?: string; readonly attempt: number },
+    options: RetryOptions = {},
+    now: number = Date.now(),
+): RetryDecision => {
+    const {
+        retries = 3,
+        maxDelay = 30_000,
+        retryNonIdempotent = false,
+    } = options;
+    const { maxRetryAfter = maxDelay } = options;
+
+    if (!isRetryableStatus(response)) {
+        return { retry: false, reason: "status" };
+    }
+
+    const method = (request.method ?? "GET").toUpperCase();
+    if (
+        !retryNonIdempotent &&
+        !IDEMPOTENT_METHODS.has(method) &&
+        !UNPROCESSED_STATUSES.has(response.status)
+    ) {
+        return { retry: false, reason: "method" };
+    }
+
+    if (request.attempt > retries) {
+        return { retry: false, reason: "retries" };
+    }
+
+    const retryAfter = parseRetryAfter(
+        response.headers?.get("Retry-After"),
+        now,
+    );
+    if (retryAfter !== undefined) {
+        return retryAfter > maxRetryAfter
+            ? { retry: false, reason: "retry-after" }
+            : { retry: true, delay: retryAfter };
+    }
+
+    return { retry: true, delay: backoffDelay(request.attempt, options) };
+};
+
+/**
+ * Options of {@link fetchWithRetry}.
+ *
+ * @property fetch - The `fetch` implementation to use. Defaults to the global `fetch`.
+ * @property clock - The clock used to wait between attempts. Defaults to {@link SYSTEM_CLOCK}.
+ * @property onRetry - Called before waiting for each retry.
+ */
+export type FetchWithRetryOptions = RetryOptions & {
+    readonly fetch?: (request: Request) => Promise<Response>;
+    readonly clock?: RetryClock;
+    readonly onRetry?: (retry: {
+        readonly attempt: number;
+        readonly delay: number;
+        readonly response?: Response;
+        readonly error?: unknown;
+    }) => void;
+};
+
+/**
+ * Fetches a resource, retrying on transient statuses with exponential backoff, jitter and
+ * `Retry-After` support. Network errors are retried for idempotent methods only.
+ *
+ * @param input - The resource to fetch.
+ * @param init - The request options.
+ * @param options - The retry options, the `fetch` implementation and the clock.
+ *
+ * @returns The first response that is not retried.
+ *
+ * @example
+ * ```
+ * const response = await fetchWithRetry("https://api.example.com/items", undefined, {
+ *     retries: 5,
+ * });
+ * ```
+ */
+export const fetchWithRetry = async (
+    input: RequestInfo | URL,
+    init?: RequestInit,
+    options: FetchWithRetryOptions = {},
+): Promise<Response> => {
+    const {
+        fetch: send = (request: Request) => fetch(request),
+        clock = SYSTEM_CLOCK,
+        onRetry,
+    } = options;
+    const request = new Request(input, init);
+
+    for (let attempt = 1; ; attempt++) {
+        let response: Response;
+        try {
+            response = await send(request.clone());
+        } catch (error) {
+            if (
+                request.signal.aborted ||
+                attempt > (options.retries ?? 3) ||
+                (!options.retryNonIdempotent &&
+                    !IDEMPOTENT_METHODS.has(request.method))
+            ) {
+                throw error;
+            }
+
+            const delay = backoffDelay(attempt, options);
+            onRetry?.({ attempt, delay, error });
+            await clock.sleep(delay);
+            continue;
+        }
+
+        const decision = shouldRetry(
+            response,
+            { method: request.method, attempt },
+            options,
+            clock.now(),
+        );
+        if (!decision.retry || request.signal.aborted) {
+            return response;
+        }
+
+        await response.body?.cancel();
+        onRetry?.({ attempt, delay: decision.delay, response });
+        await clock.sleep(decision.delay);
+    }
+};
@@ -0,0 +1,262 @@
+import type { HTTPStatus } from "./http-status";
+import { allowsBody } from "./responses";
+import type { InformationalCode } from "./status-class";
+
+/**
+ * The body types of a route, keyed by status code, e.g. `{ 200: Article; 404: Problem }`.
+ * Statuses left out accept any body.
+ */
+export type RouteBodies = { readonly [code: number]: unknown };
+
+/**
+ * The codes whose responses cannot carry content; see `allowsBody()`.
+ */
+type NoBodyCode = InformationalCode | 204 | 205 | 304;
+
+/**
+ * The body type of a status: `never` when the status forbids content, the type given in
+ * `Bodies` for its code, and `unknown` otherwise.
+ */
+type BodyOf<
+    Status extends HTTPStatus,
+    Bodies extends RouteBodies,
+> = Status["status"] extends NoBodyCode
+    ? never
+    : Status["status"] extends keyof Bodies
+      ? Bodies[Status["status"]]
+      : unknown;
+
+/**
+ * What a route handler returns: one of the statuses declared by the route, spread from its
+ * constant, with an optional body and headers.
+ *
+ * @typeParam Status - The statuses declared by the route.
+ * @typeParam Bodies - The body type of each status.
+ *
+ * @example
+ * ```
+ * const reply: RouteReply<typeof OK | typeof NOT_FOUND, { 404: string }> = {
+ *     ...NOT_FOUND,
+ *     body: "No such article",
+ * };
+ * ```
+ */
+export type RouteReply<
+    Status extends HTTPStatus,
+    Bodies extends RouteBodies = RouteBodies,
+> = Status extends HTTPStatus
+    ? {
+          readonly status: Status["status"];
+          readonly statusText: Status["statusText"];
+          readonly body?: BodyOf<Status, Bodies>;
+          readonly headers?: HeadersInit;
+      }
+    : never;
+
+/**
+ * What a client reads from a route: a union discriminated on the literal `status`, so that
+ * a `switch` over it is checked for exhaustiveness.
+ *
+ * @typeParam Status - The statuses declared by the route.
+ * @typeParam Bodies - The body type of each status.
+ *
+ * @property body - The decoded body: parsed JSON, text, or `undefined` when empty.
+ * @property response - The underlying Fetch `Response`, whose body has been consumed.
+ */
+export type ClientReply<
+    Status extends HTTPStatus,
+    Bodies extends RouteBodies = RouteBodies,
+> = Status extends HTTPStatus
+    ? {
+          readonly status: Status["status"];
+          readonly statusText: Status["statusText"];
+          readonly body: BodyOf<Status, Bodies> | undefined;
+          readonly response: Response;
+      }
+    : never;
+
+/**
+ * The statuses a route may answer with.
+ */
+export type RouteContract<Status extends HTTPStatus> = {
+    readonly responses: readonly Status[];
+};
+
+/**
+ * A route bound to its status contract, as created by {@link defineRoute}.
+ */
+export type Route<
+    Status extends HTTPStatus,
+    Bodies extends RouteBodies = RouteBodies,
+> = {
+    readonly responses: readonly Status[];
+
+    /**
+     * Checks whether a status code is declared by the route.
+     */
+    readonly declares: (status: number) => status is Status["status"];
+
+    /**
+     * Wraps a handler whose replies are restricted to the declared statuses, turning each
+     * reply into a Fetch `Response`. Non-`BodyInit` bodies are sent as JSON.
+     *
+     * @throws {TypeError} When a plain JavaScript handler replies with an undeclared status,
+     * or with a body for a status that forbids content.
+     */
+    readonly handle: <
+        Args extends unknown[],
+        Reply extends RouteReply<Status, Bodies>,
+    >(
+        handler: (...args: Args) => Reply | Promise<Reply>,
+    ) => (...args: Args) => Promise<Response>;
+
+    /**
+     * Reads a response on the client side, narrowing it to the declared statuses.
+     *
+     * @typeParam ReadBodies - The body type of each status. Defaults to those of the route.
+     *
+     * @throws {TypeError} When the response status is not declared by the route, or its
+     * JSON body is malformed; the `SyntaxError` of `JSON.parse` is kept as `cause`.
+     */
+    readonly read: <ReadBodies extends RouteBodies = Bodies>(
+        response: Response,
+    ) => Promise<ClientReply<Status, ReadBodies>>;
+};
+
+const isBodyInit = (body: unknown): body is BodyInit =>
+    typeof body === "string" ||
+    body instanceof Blob ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body) ||
+    body instanceof FormData ||
+    body instanceof URLSearchParams ||
+    body instanceof ReadableStream;
+
+/**
+ * Declares the statuses a route may answer with. TypeScript then rejects a handler
+ * returning any other status, or a body for a status that forbids content, and clients get
+ * a union discriminated on `status`.
+ *
+ * @typeParam Status - The statuses declared by the route, inferred from the contract.
+ * @typeParam Bodies - The body type of each status, e.g. `{ 200: Article }`.
+ *
+ * @param contract - The status constants the route may answer with.
+ *
+ * @example
+ * ```
+ * const getArticle = defineRoute<typeof OK | typeof NOT_FOUND, { 200: Article }>({
+ *     responses: [OK, NOT_FOUND],
+ * });
+ *
+ * export const handler = getArticle.handle(async (request: Request) => {
+ *     const article = await find(request);
+ *     if (!article) return { ...NOT_FOUND };
+ *     return { ...OK, body: article };
+ *     // return { ...FORBIDDEN }; // Type error: 403 is not declared
+ * });
+ *
+ * const reply = await getArticle.read(await fetch(url));
+ * switch (reply.status) {
+ *     case 200: reply.body; // Article | undefined
+ *     case 404: reply.body; // unknown
+ * }
+ * ```
+ */
+export const defineRoute = <
+    Status extends HTTPStatus,
+    Bodies extends RouteBodies = RouteBodies,
+>(
+    contract: RouteContract<Status>,
+): Route<Status, Bodies> => {
+    const responses = Object.freeze([...contract.responses]);
+    const declared = new Map<number, Status>(
+        responses.map((status) => [status.status, status]),
+    );
+
+    const declares = (status: number): status is Status["status"] =>
+        declared.has(status);
+
+    return Object.freeze({
+        responses,
+        declares,
+
+        handle:
+            <
+                Args extends unknown[],
+                Reply extends RouteReply<Status, Bodies>,
+            >(
+                handler: (...args: Args) => Reply | Promise<Reply>,
+            ) =>
+            async (...args: Args): Promise<Response> => {
+                const reply = await handler(...args);
+                const status = declared.get(reply?.status);
+                if (status === undefined) {
+                    throw new TypeError(
+                        `The route does not declare the ${reply?.status} status.`,
+                    );
+                }
+
+                const hasBody =
+                    reply.body !== undefined && reply.body !== null;
+                if (hasBody && !allowsBody(status)) {
+                    throw new TypeError(
+                        `A ${status.status} ${status.statusText} response must not have a body.`,
+                    );
+                }
+
+                const headers = new Headers(reply.headers);
+                let body: BodyInit | null = null;
+                if (hasBody) {
+                    if (isBodyInit(reply.body)) {
+                        body = reply.body;
+                    } else {
+                        body = JSON.stringify(reply.body);
+                        if (!headers.has("Content-Type")) {
+                            headers.set("Content-Type", "application/json");
+                        }
+                    }
+                }
+
+                return new Response(body, {
+                    headers,
+                    status: status.status,
+                    statusText: status.statusText,
+                });
+            },
+
+        read: async <ReadBodies extends RouteBodies = Bodies>(
+            response: Response,
+        ): Promise<ClientReply<Status, ReadBodies>> => {
+            const status = declared.get(response.status);
+            if (status === undefined) {
+                throw new TypeError(
+                    `The route does not declare the ${response.status} status.`,
+                );
+            }
+
+            const text = await response.text();
+            const contentType = response.headers.get("Content-Type") ?? "";
+            let body: unknown = text === "" ? undefined : text;
+            if (
+                body !== undefined &&
+                /^application\/([\w.-]+\+)?json\b/i.test(contentType)
+            ) {
+                try {
+                    body = JSON.parse(text);
+                } catch (error) {
+                    throw new TypeError(
+                        `The ${status.status} ${status.statusText} response has a malformed ${contentType} body.`,
+                        { cause: error },
+                    );
+                }
+            }
+
+            return Object.freeze({
+                status: status.status,
+                statusText: status.statusText,
+                body,
+                response,
+            }) as ClientReply<Status, ReadBodies>;
+        },
+    });
+};
@@ -0,0 +1,192 @@
+import type { HTTPStatus } from "./http-status";
+import type { KnownHTTPStatus, UnknownHTTPStatus } from "./registry";
+
+/**
+ * The first digit of a status code, which defines its class
+ * ([RFC 9110 §15](https://httpwg.org/specs/rfc9110.html#overview.of.status.codes)).
+ */
+export type StatusClassDigit = "1" | "2" | "3" | "4" | "5";
+
+/**
+ * Selects the known status constants whose code starts with the given digit.
+ *
+ * @typeParam Digit - The class digit, e.g. `"4"` for client errors.
+ */
+export type StatusOfClass<Digit extends StatusClassDigit> =
+    KnownHTTPStatus extends infer Status
+        ? Status extends KnownHTTPStatus
+            ? `${Status["status"]}` extends `${Digit}${string}`
+                ? Status
+                : never
+            : never
+        : never;
+
+/**
+ * Union of the `1XX` status constants (e.g. `CONTINUE`, `EARLY_HINTS`).
+ */
+export type InformationalStatus = StatusOfClass<"1">;
+
+/**
+ * Union of the `2XX` status constants (e.g. `OK`, `CREATED`).
+ */
+export type SuccessStatus = StatusOfClass<"2">;
+
+/**
+ * Union of the `3XX` status constants (e.g. `MOVED_PERMANENTLY`, `SEE_OTHER`).
+ */
+export type RedirectStatus = StatusOfClass<"3">;
+
+/**
+ * Union of the `4XX` status constants (e.g. `BAD_REQUEST`, `NOT_FOUND`).
+ */
+export type ClientErrorStatus = StatusOfClass<"4">;
+
+/**
+ * Union of the `5XX` status constants (e.g. `INTERNAL_SERVER_ERROR`, `BAD_GATEWAY`).
+ */
+export type ServerErrorStatus = StatusOfClass<"5">;
+
+/**
+ * Union of the `4XX` and `5XX` status constants.
+ */
+export type ErrorStatus = ClientErrorStatus | ServerErrorStatus;
+
+/**
+ * Union of the `1XX` status codes (`100 | 101 | 102 | 103`).
+ */
+export type InformationalCode = InformationalStatus["status"];
+
+/**
+ * Union of the `2XX` status codes (`200 | 201 | ... | 226`).
+ */
+export type SuccessCode = SuccessStatus["status"];
+
+/**
+ * Union of the `3XX` status codes (`300 | 301 | ... | 308`).
+ */
+export type RedirectCode = RedirectStatus["status"];
+
+/**
+ * Union of the `4XX` status codes (`400 | 401 | ... | 451`).
+ */
+export type ClientErrorCode = ClientErrorStatus["status"];
+
+/**
+ * Union of the `5XX` status codes (`500 | 501 | ... | 511`).
+ */
+export type ServerErrorCode = ServerErrorStatus["status"];
+
+/**
+ * Union of the `4XX` and `5XX` status codes.
+ */
+export type ErrorCode = ErrorStatus["status"];
+
+/**
+ * Narrows each member of a union to the constants of a status class, except
+ * {@link UnknownHTTPStatus} members, which are kept as is: their code may be in the class
+ * without being in the registry.
+ */
+type NarrowToClass<
+    Value,
+    Status extends HTTPStatus,
+> = Value extends UnknownHTTPStatus ? Value : Value & Status;
+
+/**
+ * Type guard checking whether a value belongs to a status class.
+ *
+ * It accepts a raw status code, an `HTTPStatus` constant or anything shaped like one,
+ * such as a Fetch `Response`, and narrows it accordingly:
+ *
+ * - a `number` narrows to the code union of the class (e.g. `ClientErrorCode`);
+ * - an object narrows its `status` and `statusText` to the constants of the class;
+ * - an {@link UnknownHTTPStatus}, as returned by `fromCode()` for a non-standard code such
+ *   as `499`, is not narrowed.
+ */
+export type StatusClassGuard<Status extends HTTPStatus> = {
+    (status: number): status is Status["status"];
+    <Value extends HTTPStatus>(
+        value: Value,
+    ): value is NarrowToClass<Value, Status>;
+};
+
+const NewStatusClassGuard = <Status extends HTTPStatus>(
+    min: number,
+    max: number,
+): StatusClassGuard<Status> =>
+    ((value: number | HTTPStatus) => {
+        const code = typeof value === "number" ? value : value.status;
+
+        return code >= min && code <= max;
+    }) as StatusClassGuard<Status>;
+
+/**
+ * Checks whether a status is informational (`100`–`199`).
+ *
+ * @example
+ * ```
+ * isInformational(EARLY_HINTS); // true
+ * ```
+ */
+export const isInformational = NewStatusClassGuard<InformationalStatus>(
+    100,
+    199,
+);
+
+/**
+ * Checks whether a status is successful (`200`–`299`).
+ *
+ * @example
+ * ```
+ * const response = await fetch(url);
+ * if (isSuccess(response)) {
+ *     response.status; // SuccessCode
+ * }
+ * ```
+ */
+export const isSuccess = NewStatusClassGuard<SuccessStatus>(200, 299);
+
+/**
+ * Checks whether a status is a redirection (`300`–`399`).
+ *
+ * @example
+ * ```
+ * isRedirect(SEE_OTHER); // true
+ * ```
+ */
+export const isRedirect = NewStatusClassGuard<RedirectStatus>(300, 399);
+
+/**
+ * Checks whether a status is a client error (`400`–`499`).
+ *
+ * @example
+ * ```
+ * isClientError(404); // true
+ * ```
+ */
+export const isClientError = NewStatusClassGuard<ClientErrorStatus>(
+    400,
+    499,
+);
+
+/**
+ * Checks whether a status is a server error (`500`–`599`).
+ *
+ * @example
+ * ```
+ * isServerError(SERVICE_UNAVAILABLE); // true
+ * ```
+ */
+export const isServerError = NewStatusClassGuard<ServerErrorStatus>(
+    500,
+    599,
+);
+
+/**
+ * Checks whether a status is a client or server error (`400`–`599`).
+ *
+ * @example
+ * ```
+ * isError(response); // true for any 4XX or 5XX response
+ * ```
+ */
+export const isError = NewStatusClassGuard<ErrorStatus>(400, 599);
@@ -0,0 +1,225 @@
+import type { HTTPStatus } from "./http-status";
+import {
+    fromCode,
+    type KnownHTTPStatus,
+    type UnknownHTTPStatus,
+} from "./registry";
+
+/**
+ * An HTTP/1.x version, as written in a status line.
+ */
+export type HTTPVersion = `HTTP/${number}.${number}`;
+
+/**
+ * Result of {@link parseStatusLine}.
+ *
+ * @property version - The HTTP version, e.g. `"HTTP/1.1"`.
+ * @property status - The status code.
+ * @property reasonPhrase - The reason phrase as received; it may be empty or differ from the
+ * status text of the constant.
+ * @property resolved - The status constant matching the code, or an unknown status.
+ */
+export type StatusLine = {
+    readonly version: HTTPVersion;
+    readonly status: number;
+    readonly reasonPhrase: string;
+    readonly resolved: KnownHTTPStatus | UnknownHTTPStatus;
+};
+
+/**
+ * A header field, as a name and value pair in received order.
+ */
+export type HeaderField = readonly [name: string, value: string];
+
+/**
+ * Result of {@link parseResponseHead}.
+ *
+ * @property statusLine - The parsed status line.
+ * @property headers - The header fields, in received order and with their original case.
+ */
+export type ResponseHead = {
+    readonly statusLine: StatusLine;
+    readonly headers: readonly HeaderField[];
+};
+
+const VERSION = /^HTTP\/\d\.\d$/;
+const STATUS_LINE =
+    /^(HTTP\/\d\.\d) (\d{3})(?: ([\t\x20-\x7e\x80-\xff]*))?$/;
+const TOKEN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+const FIELD_VALUE = /^[\t\x20-\x7e\x80-\xff]*$/;
+
+/**
+ * Serializes a status line, such as `HTTP/1.1 404 Not Found`
+ * ([RFC 9112 §4](https://www.rfc-editor.org/rfc/rfc9112#section-4)).
+ *
+ * @param status - Any `HTTPStatus`; its `statusText` becomes the reason phrase.
+ * @param version - The HTTP version. Defaults to `"HTTP/1.1"`.
+ *
+ * @returns The status line, without the trailing CRLF.
+ *
+ * @throws {SyntaxError} When the version, the code or the reason phrase is malformed.
+ *
+ * @example
+ * ```
+ * formatStatusLine(NOT_FOUND); // "HTTP/1.1 404 Not Found"
+ * ```
+ */
+export const formatStatusLine = (
+    status: HTTPStatus,
+    version: HTTPVersion = "HTTP/1.1",
+): string => {
+    if (!VERSION.test(version)) {
+        throw new SyntaxError(`Invalid HTTP version: ${version}`);
+    }
+
+    if (
+        !Number.isInteger(status.status) ||
+        status.status < 100 ||
+        status.status > 599
+    ) {
+        throw new SyntaxError(`Invalid status code: ${status.status}`);
+    }
+
+    if (!FIELD_VALUE.test(status.statusText)) {
+        throw new SyntaxError(
+            `Invalid reason phrase: ${JSON.stringify(status.statusText)}`,
+        );
+    }
+
+    return `${version} ${status.status} ${status.statusText}`;
+};
+
+/**
+ * Parses a status line strictly
+ * ([RFC 9112 §4](https://www.rfc-editor.org/rfc/rfc9112#section-4)).
+ *
+ * The reason phrase may be empty, missing or custom; the code is resolved to the matching
+ * constant regardless of it.
+ *
+ * @param line - The status line, with or without its trailing CRLF.
+ *
+ * @throws {SyntaxError} When the line is malformed or the code is outside `100`–`599`.
+ *
+ * @example
+ * ```
+ * parseStatusLine("HTTP/1.1 404 Nope");
+ * // {
+ * //     version: "HTTP/1.1",
+ * //     status: 404,
+ * //     reasonPhrase: "Nope",
+ * //     resolved: { status: 404, statusText: "Not Found" },
+ * // }
+ * ```
+ */
+export const parseStatusLine = (line: string): StatusLine => {
+    const match = STATUS_LINE.exec(line.replace(/\r?\n$/, ""));
+    if (match === null) {
+        throw new SyntaxError(
+            `Malformed status line: ${JSON.stringify(line)}`,
+        );
+    }
+
+    const [, version, code, reasonPhrase = ""] = match;
+    const status = Number(code);
+    if (status < 100 || status > 599) {
+        throw new SyntaxError(`Status code out of range: ${code}`);
+    }
+
+    return Object.freeze({
+        version: version as HTTPVersion,
+        status,
+        reasonPhrase,
+        resolved: fromCode(status),
+    });
+};
+
+/**
+ * Serializes a response head: the status line, the header fields and the empty line that
+ * ends them.
+ *
+ * @param status - Any `HTTPStatus`.
+ * @param headers - The header fields, in order.
+ * @param version - The HTTP version. Defaults to `"HTTP/1.1"`.
+ *
+ * @throws {SyntaxError} When the status line or a header field is malformed.
+ *
+ * @example
+ * ```
+ * formatResponseHead(CREATED, [["Location", "/articles/42"]]);
+ * // "HTTP/1.1 201 Created\r\nLocation: /articles/42\r\n\r\n"
+ * ```
+ */
+export const formatResponseHead = (
+    status: HTTPStatus,
+    headers: readonly HeaderField[] = [],
+    version: HTTPVersion = "HTTP/1.1",
+): string => {
+    const lines = [formatStatusLine(status, version)];
+    for (const [name, value] of headers) {
+        if (!TOKEN.test(name) || !FIELD_VALUE.test(value)) {
+            throw new SyntaxError(
+                `Malformed header field: ${JSON.stringify(name)}`,
+            );
+        }
+
+        lines.push(`${name}: ${value.trim()}`);
+    }
+
+    return `${lines.join("\r\n")}\r\n\r\n`;
+};
+
+/**
+ * Parses a raw response head strictly
+ * ([RFC 9112 §2](https://www.rfc-editor.org/rfc/rfc9112#section-2)).
+ *
+ * Lines may end with CRLF or a bare LF. Whitespace between a field name and its colon and
+ * obsolete line folding are rejected. Anything after the empty line ending the head, such
+ * as the body, is ignored.
+ *
+ * @param raw - The response head, as received from the socket.
+ *
+ * @throws {SyntaxError} When the status line or a header field is malformed, or the empty
+ * line ending the head is missing, e.g. in a truncated head.
+ *
+ * @example
+ * ```
+ * const { statusLine, headers } = parseResponseHead(
+ *     "HTTP/1.1 503 Service Unavailable\r\nRetry-After: 120\r\n\r\n",
+ * );
+ * statusLine.resolved === SERVICE_UNAVAILABLE; // true
+ * ```
+ */
+export const parseResponseHead = (raw: string): ResponseHead => {
+    const end = raw.search(/\r?\n\r?\n/);
+    if (end === -1) {
+        throw new SyntaxError(
+            "Incomplete response head: missing the empty line after the header fields.",
+        );
+    }
+
+    const [line, ...fields] = raw.slice(0, end).split(/\r?\n/);
+
+    const statusLine = parseStatusLine(line);
+    const headers: HeaderField[] = [];
+    for (const field of fields) {
+        if (field === "") {
+            continue;
+        }
+
+        const colon = field.indexOf(":");
+        const name = field.slice(0, colon);
+        const value = field.slice(colon + 1).trim();
+        if (colon === -1 || !TOKEN.test(name) || !FIELD_VALUE.test(value)) {
+            throw new SyntaxError(
+                `Malformed header field: ${JSON.stringify(field)}`,
+            );
+        }
+
+        headers.push(Object.freeze([name, value] as const));
+    }
+
+    return Object.freeze({
+        statusLine,
+        headers: Object.freeze(headers),
+    });
+};
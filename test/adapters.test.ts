@@ -0,0 +1,182 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import * as express from "../adapters/express";
+import * as fastify from "../adapters/fastify";
+import * as hono from "../adapters/hono";
+import * as koa from "../adapters/koa";
+import * as node from "../adapters/node";
+import { ServiceUnavailableError } from "../http-error";
+
+const notFound = Object.assign(new Error("No such user"), { status: 404 });
+
+test("express: answers errors and defers once the headers are sent", () => {
+    const sent: { [key: string]: unknown } = {};
+    const response: express.ExpressResponse = {
+        statusMessage: "",
+        headersSent: false,
+        status: (code) => ((sent.status = code), response),
+        set: (field, value) => ((sent[field] = value), response),
+        type: (type) => ((sent.type = type), response),
+        send: (body) => ((sent.body = body), response),
+    };
+    const handler = express.errorHandler();
+    let passed: unknown;
+    handler(notFound, {}, response, (error) => (passed = error));
+    assert.deepEqual(sent, {
+        status: 404,
+        type: "text/plain",
+        body: "No such user",
+    });
+    assert.equal(response.statusMessage, "Not Found");
+    assert.equal(passed, undefined);
+
+    handler(notFound, {}, { ...response, headersSent: true }, (error) => {
+        passed = error;
+    });
+    assert.equal(passed, notFound);
+});
+
+test("fastify: answers errors with their status and headers", () => {
+    const sent: { [key: string]: unknown } = {};
+    const reply: fastify.FastifyReply = {
+        raw: { statusMessage: "" },
+        code: (code) => ((sent.code = code), reply),
+        header: (name, value) => ((sent[name] = value), reply),
+        type: (type) => ((sent.type = type), reply),
+        send: (payload) => ((sent.payload = payload), reply),
+    };
+    fastify.errorHandler()(
+        new ServiceUnavailableError(undefined, {
+            headers: { "Retry-After": "120" },
+        }),
+        {},
+        reply,
+    );
+    assert.deepEqual(sent, {
+        code: 503,
+        "retry-after": "120",
+        type: "text/plain; charset=utf-8",
+        payload: "Service Unavailable",
+    });
+    assert.equal(reply.raw.statusMessage, "Service Unavailable");
+});
+
+test("hono: answers errors with a Response", async () => {
+    const response = hono.errorHandler()(notFound, {});
+    assert.equal(response.status, 404);
+    assert.equal(await response.text(), "No such user");
+
+    let status: number | undefined;
+    hono.applyStatus(
+        { status: (code) => (status = code) },
+        {
+            status: 201,
+            statusText: "Created",
+        },
+    );
+    assert.equal(status, 201);
+});
+
+const koaContext = (headerSent: boolean) => {
+    const headers: { [name: string]: string } = {};
+    const emitted: unknown[] = [];
+    const context: koa.KoaContext = {
+        status: 200,
+        message: "OK",
+        body: undefined,
+        type: "",
+        headerSent,
+        app: {
+            emit: (event, error, target) => {
+                assert.equal(event, "error");
+                assert.equal(target, context);
+
+                return emitted.push(error) > 0;
+            },
+        },
+        set: (field, value) => (headers[field] = value),
+    };
+
+    return { context, headers, emitted };
+};
+
+test("koa: answers errors thrown downstream and emits them", async () => {
+    const { context, headers, emitted } = koaContext(false);
+    const error = new Error("Connection refused by db-1:5432");
+    await koa.errorHandler()(context, async () => {
+        throw error;
+    });
+    assert.equal(context.status, 500);
+    assert.equal(context.message, "Internal Server Error");
+    assert.equal(context.body, "Internal Server Error");
+    assert.equal(context.type, "text/plain");
+    assert.deepEqual(emitted, [error]);
+
+    const unavailable = koaContext(false);
+    await koa.errorHandler()(unavailable.context, async () => {
+        throw new ServiceUnavailableError(undefined, {
+            headers: { "Retry-After": "120" },
+        });
+    });
+    assert.equal(unavailable.context.status, 503);
+    assert.deepEqual(unavailable.headers, { "retry-after": "120" });
+    assert.equal(unavailable.emitted.length, 1);
+    assert.deepEqual(headers, {});
+});
+
+test("koa: rethrows errors once the headers are sent", async () => {
+    const { context, headers, emitted } = koaContext(true);
+    const error = new Error("Stream failed");
+    await assert.rejects(
+        koa.errorHandler()(context, async () => {
+            throw error;
+        }),
+        (thrown) => thrown === error,
+    );
+    assert.equal(context.status, 200);
+    assert.equal(context.body, undefined);
+    assert.deepEqual(headers, {});
+    assert.deepEqual(emitted, []);
+});
+
+const nodeResponse = (headersSent: boolean) => {
+    const calls: string[] = [];
+    const response: node.NodeResponse = {
+        statusCode: 200,
+        statusMessage: "",
+        headersSent,
+        setHeader: (
+            name: string,
+            value: number | string | readonly string[],
+        ) => {
+            calls.push(`${name}: ${String(value)}`);
+
+            return response as never;
+        },
+        end: ((body: string) => {
+            calls.push(body);
+
+            return response;
+        }) as never,
+        destroy: (error?: Error) => calls.push(`destroy ${error?.message}`),
+    };
+
+    return { response, calls };
+};
+
+test("node: sends errors, or destroys responses whose headers were sent", async () => {
+    const fresh = nodeResponse(false);
+    await node.withErrorHandling(async () => {
+        throw notFound;
+    })({} as never, fresh.response);
+    assert.equal(fresh.response.statusCode, 404);
+    assert.deepEqual(fresh.calls, [
+        "Content-Type: text/plain; charset=utf-8",
+        "No such user",
+    ]);
+
+    const started = nodeResponse(true);
+    node.sendError(started.response, notFound);
+    assert.equal(started.response.statusCode, 200);
+    assert.deepEqual(started.calls, ["destroy No such user"]);
+});
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { test } from "node:test";
+import { run } from "../cli";
+
+const capture = (args: readonly string[]) => {
+    let stdout = "";
+    let stderr = "";
+    const code = run(args, {
+        stdout: { write: (chunk: string) => (stdout += chunk) },
+        stderr: { write: (chunk: string) => (stderr += chunk) },
+    });
+
+    return { code, stdout, stderr };
+};
+
+test("explains a code, a name or a status text", () => {
+    for (const query of [
+        ["421"],
+        ["MISDIRECTED_REQUEST"],
+        ["Misdirected", "Request"],
+    ]) {
+        const { code, stdout } = capture(query);
+        assert.equal(code, 0);
+        assert.match(
+            stdout,
+            /^421 Misdirected Request \(MISDIRECTED_REQUEST\)/,
+        );
+    }
+});
+
+test("prints JSON", () => {
+    const { code, stdout } = capture(["404", "--json"]);
+    assert.equal(code, 0);
+    assert.equal(JSON.parse(stdout).name, "NOT_FOUND");
+});
+
+test("suggests statuses when nothing matches", () => {
+    const { code, stderr } = capture(["timout"]);
+    assert.equal(code, 1);
+    assert.match(stderr, /Did you mean:[\s\S]*REQUEST_TIMEOUT/);
+});
+
+test("lists a class", () => {
+    const { code, stdout } = capture(["list", "--class", "1xx", "--plain"]);
+    assert.equal(code, 0);
+    assert.deepEqual(stdout.match(/^\d{3}/gm), [
+        "100",
+        "101",
+        "102",
+        "103",
+    ]);
+});
+
+test("rejects usage errors", () => {
+    assert.equal(capture([]).code, 2);
+    assert.equal(capture(["list", "--class", "6xx"]).code, 2);
+    assert.equal(capture(["404", "--format", "xml"]).code, 2);
+    assert.equal(capture(["404", "--format", "sarif"]).code, 2);
+});
+
+test("lints HAR files", (context) => {
+    const directory = mkdtempSync(join(tmpdir(), "http-status-"));
+    context.after(() =>
+        rmSync(directory, { recursive: true, force: true }),
+    );
+    const file = join(directory, "s.har");
+    writeFileSync(
+        file,
+        JSON.stringify({
+            log: {
+                entries: [
+                    {
+                        request: {
+                            method: "GET",
+                            url: "https://a.example/",
+                        },
+                        response: { status: 302, headers: [] },
+                    },
+                ],
+            },
+        }),
+    );
+
+    const { code, stdout } = capture(["lint", file, "--format", "sarif"]);
+    assert.equal(code, 1);
+    assert.equal(JSON.parse(stdout).runs[0].results[0].ruleId, "no-found");
+});
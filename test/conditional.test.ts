@@ -0,0 +1,209 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+    compareETags,
+    evaluateIfRange,
+    evaluatePreconditions,
+    type ResourceState,
+} from "../conditional";
+import {
+    NOT_MODIFIED,
+    PRECONDITION_FAILED,
+    PRECONDITION_REQUIRED,
+} from "../http-status";
+
+const MODIFIED = "Wed, 21 Oct 2015 07:28:00 GMT";
+const BEFORE = "Tue, 20 Oct 2015 07:28:00 GMT";
+const AFTER = "Thu, 22 Oct 2015 07:28:00 GMT";
+
+const RESOURCE: ResourceState = { etag: '"v2"', lastModified: MODIFIED };
+
+const evaluate = (
+    method: string,
+    headers: Record<string, string>,
+    resource = RESOURCE,
+) => evaluatePreconditions({ method, headers }, resource);
+
+test("compares entity tags strongly or weakly", () => {
+    assert.equal(compareETags('"1"', '"1"', "strong"), true);
+    assert.equal(compareETags('W/"1"', '"1"', "strong"), false);
+    assert.equal(compareETags('W/"1"', 'W/"1"', "strong"), false);
+    assert.equal(compareETags('W/"1"', '"1"', "weak"), true);
+    assert.equal(compareETags('"1"', '"2"', "weak"), false);
+    assert.equal(compareETags("1", "1", "weak"), false);
+});
+
+test("evaluates If-Match with strong comparison before If-Unmodified-Since", () => {
+    assert.equal(
+        evaluate("PUT", { "If-Match": '"v1", "v3"' }),
+        PRECONDITION_FAILED,
+    );
+    assert.equal(
+        evaluate(
+            "PUT",
+            { "If-Match": '"v1", "v2"' },
+            {
+                ...RESOURCE,
+                etag: '"v1"',
+            },
+        ),
+        "proceed",
+    );
+    assert.equal(
+        evaluate("PUT", { "If-Match": 'W/"v2"' }),
+        PRECONDITION_FAILED,
+    );
+    assert.equal(
+        evaluate("PUT", { "If-Match": "*" }, { exists: false }),
+        PRECONDITION_FAILED,
+    );
+
+    // A matching If-Match makes If-Unmodified-Since irrelevant.
+    assert.equal(
+        evaluate("PUT", {
+            "If-Match": '"v2"',
+            "If-Unmodified-Since": BEFORE,
+        }),
+        "proceed",
+    );
+    assert.equal(
+        evaluate("PUT", { "If-Unmodified-Since": BEFORE }),
+        PRECONDITION_FAILED,
+    );
+    assert.equal(
+        evaluate("PUT", { "If-Unmodified-Since": MODIFIED }),
+        "proceed",
+    );
+});
+
+test("evaluates If-None-Match with weak comparison before If-Modified-Since", () => {
+    assert.equal(
+        evaluate("GET", { "If-None-Match": 'W/"v2"' }),
+        NOT_MODIFIED,
+    );
+    assert.equal(evaluate("HEAD", { "If-None-Match": "*" }), NOT_MODIFIED);
+
+    // A failed If-None-Match makes If-Modified-Since irrelevant.
+    assert.equal(
+        evaluate("GET", {
+            "If-None-Match": '"v1"',
+            "If-Modified-Since": AFTER,
+        }),
+        "proceed",
+    );
+    assert.equal(
+        evaluate("GET", { "If-Modified-Since": AFTER }),
+        NOT_MODIFIED,
+    );
+    assert.equal(
+        evaluate("GET", { "If-Modified-Since": MODIFIED }),
+        NOT_MODIFIED,
+    );
+    assert.equal(
+        evaluate("GET", { "If-Modified-Since": BEFORE }),
+        "proceed",
+    );
+
+    // If-Match is evaluated first.
+    assert.equal(
+        evaluate("GET", { "If-Match": '"v1"', "If-None-Match": '"v2"' }),
+        PRECONDITION_FAILED,
+    );
+});
+
+test("answers 304 to GET and HEAD, and 412 to other methods", () => {
+    assert.equal(
+        evaluate("get", { "If-None-Match": '"v2"' }),
+        NOT_MODIFIED,
+    );
+    assert.equal(
+        evaluate("POST", { "If-None-Match": '"v2"' }),
+        PRECONDITION_FAILED,
+    );
+    assert.equal(
+        evaluate("PUT", { "If-None-Match": "*" }),
+        PRECONDITION_FAILED,
+    );
+    assert.equal(
+        evaluate("PUT", { "If-None-Match": "*" }, { exists: false }),
+        "proceed",
+    );
+    // If-Modified-Since only applies to GET and HEAD.
+    assert.equal(
+        evaluate("POST", { "If-Modified-Since": AFTER }),
+        "proceed",
+    );
+});
+
+test("requires a precondition on unsafe methods when asked to", () => {
+    const options = { requirePreconditions: true };
+    const request = (
+        method: string,
+        headers: Record<string, string> = {},
+    ) => evaluatePreconditions({ method, headers }, RESOURCE, options);
+
+    assert.equal(request("PUT"), PRECONDITION_REQUIRED);
+    assert.equal(request("DELETE"), PRECONDITION_REQUIRED);
+    assert.equal(
+        request("PUT", { "If-Modified-Since": AFTER }),
+        PRECONDITION_REQUIRED,
+    );
+    assert.equal(request("PUT", { "If-Match": '"v2"' }), "proceed");
+    assert.equal(request("GET"), "proceed");
+    assert.equal(evaluate("PUT", {}), "proceed");
+});
+
+test("ignores dates that are not HTTP-dates", () => {
+    for (const date of [
+        "2015-10-23",
+        "2015",
+        "1445412480000",
+        "Fri, 23 Oct 2015 07:28:00",
+        "Fri, 31 Feb 2015 07:28:00 GMT",
+        "Fri, 23 Oct 2015 25:28:00 GMT",
+    ]) {
+        assert.equal(
+            evaluate("GET", { "If-Modified-Since": date }),
+            "proceed",
+        );
+        assert.equal(
+            evaluate("PUT", { "If-Unmodified-Since": date }),
+            "proceed",
+        );
+    }
+
+    // The obsolete RFC 850 and asctime formats are still HTTP-dates.
+    assert.equal(
+        evaluate("GET", {
+            "If-Modified-Since": "Thursday, 22-Oct-15 07:28:00 GMT",
+        }),
+        NOT_MODIFIED,
+    );
+    assert.equal(
+        evaluate("GET", {
+            "If-Modified-Since": "Thu Oct 22 07:28:00 2015",
+        }),
+        NOT_MODIFIED,
+    );
+    assert.equal(
+        evaluate("GET", {
+            "If-Modified-Since": "Thu Oct  1 07:28:00 2015",
+        }),
+        "proceed",
+    );
+});
+
+test("applies a range only when If-Range matches", () => {
+    assert.equal(evaluateIfRange({}, RESOURCE), true);
+    assert.equal(evaluateIfRange({ "If-Range": '"v2"' }, RESOURCE), true);
+    assert.equal(
+        evaluateIfRange({ "If-Range": 'W/"v2"' }, RESOURCE),
+        false,
+    );
+    assert.equal(evaluateIfRange({ "If-Range": MODIFIED }, RESOURCE), true);
+    assert.equal(evaluateIfRange({ "If-Range": AFTER }, RESOURCE), false);
+    assert.equal(
+        evaluateIfRange({ "If-Range": "2015-10-21" }, RESOURCE),
+        false,
+    );
+});
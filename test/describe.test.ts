@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { test } from "node:test";
+import { describe } from "../describe";
+import { SWITCHING_PROTOCOLS } from "../http-status";
+
+const SOURCE = readFileSync(
+    join(__dirname, "..", "http-status.ts"),
+    "utf8",
+);
+
+/**
+ * Reads the JSDoc description of every status constant in `http-status.ts`: the paragraphs
+ * between the title link and the MDN reference.
+ */
+const documented = () =>
+    [
+        ...SOURCE.matchAll(
+            /\/\*\*\n((?: \*.*\n)+?) \*\/\nexport const (\w+) = NewHTTPStatus\(\s*(\d+)/g,
+        ),
+    ].map(([, comment, name, code]) => {
+        const lines = comment
+            .split("\n")
+            .map((line) => line.replace(/^ \* ?/, ""));
+        const end = lines.findIndex((line) =>
+            line.startsWith("[MDN Reference]"),
+        );
+        const description = lines.slice(1, end).join("\n").trim();
+
+        return {
+            name,
+            code: Number(code),
+            summary: description.replace(/\[([^\]]+)\]\([^)]+\)/g, "$1"),
+            headers: [
+                ...description.matchAll(
+                    /\/Web\/HTTP\/Headers\/([\w-]+)\)/g,
+                ),
+            ].map(([, header]) => header),
+            methods: [
+                ...description.matchAll(/\/Web\/HTTP\/Methods\/(\w+)\)/g),
+            ].map(([, method]) => method),
+        };
+    });
+
+test("describes a status", () => {
+    assert.equal(
+        describe(SWITCHING_PROTOCOLS)?.name,
+        "SWITCHING_PROTOCOLS",
+    );
+    assert.deepEqual(describe(101)?.headers, ["Upgrade"]);
+    assert.equal(describe(299), undefined);
+});
+
+test("keeps every summary in sync with the JSDoc of its constant", () => {
+    const constants = documented();
+    assert.equal(constants.length, 63);
+    for (const { name, code, summary, headers, methods } of constants) {
+        const description = describe(code);
+        assert.equal(description?.name, name);
+        assert.equal(description.summary, summary, name);
+        assert.deepEqual(
+            [...description.headers].sort(),
+            [...new Set(headers)].sort(),
+            name,
+        );
+        assert.deepEqual(
+            [...description.methods].sort(),
+            [...new Set(methods)].sort(),
+            name,
+        );
+    }
+});
@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+    createHTTPError,
+    InternalServerError,
+    NotFoundError,
+    ServiceUnavailableError,
+    toHTTPError,
+} from "../http-error";
+import { NOT_FOUND, SERVICE_UNAVAILABLE } from "../http-status";
+import type { ErrorCode } from "../status-class";
+
+test("creates the subclass matching a status", () => {
+    assert.ok(createHTTPError(NOT_FOUND) instanceof NotFoundError);
+    const error = createHTTPError(SERVICE_UNAVAILABLE.status, "Down");
+    assert.ok(error instanceof ServiceUnavailableError);
+    assert.equal(error.message, "Down");
+});
+
+test("throws a RangeError for a code without a subclass", () => {
+    assert.throws(
+        () => createHTTPError(499 as ErrorCode),
+        (error) => error instanceof RangeError && /499/.test(error.message),
+    );
+});
+
+test("keeps the message of client errors thrown by libraries", () => {
+    const error = Object.assign(new Error("No such user"), { status: 404 });
+    const httpError = toHTTPError(error);
+    assert.ok(httpError instanceof NotFoundError);
+    assert.equal(httpError.message, "No such user");
+    assert.equal(httpError.cause, error);
+});
+
+test("hides the message of server errors", () => {
+    const error = Object.assign(new Error("ECONNREFUSED 10.0.0.4:5432"), {
+        statusCode: 503,
+    });
+    const httpError = toHTTPError(error);
+    assert.ok(httpError instanceof ServiceUnavailableError);
+    assert.equal(httpError.message, "Service Unavailable");
+    assert.equal(httpError.cause, error);
+
+    const unknown = toHTTPError(new Error("secret"));
+    assert.ok(unknown instanceof InternalServerError);
+    assert.equal(unknown.message, "Internal Server Error");
+});
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import {
+    createServer,
+    request as httpRequest,
+    type IncomingMessage,
+    type OutgoingHttpHeaders,
+    type Server,
+    type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, test } from "node:test";
+import { CONTINUE, EARLY_HINTS } from "../http-status";
+import {
+    earlyHintLinks,
+    handleExpectations,
+    observeInterimResponses,
+    sendEarlyHints,
+    type InterimResponse,
+} from "../interim";
+
+const listener = async (
+    request: IncomingMessage,
+    response: ServerResponse,
+) => {
+    if (request.url === "/fail") {
+        throw new Error("Disk full");
+    }
+
+    sendEarlyHints(response, [
+        { href: "/style.css", rel: "preload", as: "style" },
+    ]);
+    let body = "";
+    for await (const chunk of request) {
+        body += chunk;
+    }
+    response.end(`received ${body.length} bytes`);
+};
+
+let server: Server;
+let port: number;
+
+before(async () => {
+    server = createServer(listener);
+    handleExpectations(
+        server,
+        listener,
+        (request) => Number(request.headers["content-length"]) <= 10,
+    );
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    port = (server.address() as AddressInfo).port;
+});
+
+after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+});
+
+const upload = (path: string, body: string, headers: OutgoingHttpHeaders) =>
+    new Promise<{
+        status: number | undefined;
+        text: string;
+        interim: readonly InterimResponse[];
+    }>((resolve, reject) => {
+        const request = httpRequest({
+            port,
+            path,
+            method: "PUT",
+            agent: false,
+            headers: { "Content-Length": body.length, ...headers },
+        });
+        const interim = observeInterimResponses(request);
+        request.on("continue", () => request.end(body));
+        request.on("error", reject);
+        request.on("response", async (response) => {
+            let text = "";
+            for await (const chunk of response) {
+                text += chunk;
+            }
+            resolve({ status: response.statusCode, text, interim });
+        });
+        if (headers.Expect !== "100-continue") {
+            request.end(body);
+        }
+    });
+
+test("answers 100 Continue when the body is wanted", async () => {
+    const { status, text, interim } = await upload("/", "hello", {
+        Expect: "100-continue",
+    });
+    assert.equal(status, 200);
+    assert.equal(text, "received 5 bytes");
+    assert.deepEqual(
+        interim.map(({ status }) => status),
+        [CONTINUE, EARLY_HINTS],
+    );
+    assert.deepEqual(earlyHintLinks(interim), [
+        "</style.css>; rel=preload; as=style",
+    ]);
+});
+
+test("answers 417 when the body is not wanted", async () => {
+    const { status, interim } = await upload("/", "far too long", {
+        Expect: "100-continue",
+    });
+    assert.equal(status, 417);
+    assert.deepEqual(interim, []);
+
+    const other = await upload("/", "", { Expect: "something-else" });
+    assert.equal(other.status, 417);
+});
+
+test("answers errors of the listener after 100 Continue", async () => {
+    const { status, text } = await upload("/fail", "hello", {
+        Expect: "100-continue",
+    });
+    assert.equal(status, 500);
+    assert.equal(text, "Internal Server Error");
+});
@@ -0,0 +1,165 @@
+import assert from "node:assert/strict";
+import { describe, it, test } from "node:test";
+import { RuleTester, type Linter } from "eslint";
+import { eslintPlugin, lintHAR, toSARIF, type LintIssue } from "../lint";
+
+RuleTester.describe = describe;
+RuleTester.it = it;
+
+const ruleTester = new RuleTester({
+    languageOptions: { ecmaVersion: "latest", sourceType: "module" },
+});
+
+const IMPORTS = `import { CREATED, FOUND, NOT_FOUND, SEE_OTHER } from "./http-status";\n`;
+
+// Reading a status, in a comparison, a `case` or a set of statuses, is never flagged.
+const READS = [
+    `${IMPORTS}if (res.status === FOUND.status) follow(res);`,
+    `${IMPORTS}if (response.status === 302) follow(response);`,
+    `switch (res.status) { case 404: break; case 302: break; }`,
+    `const FOLLOWED = new Set([301, 302, 303]);`,
+    `${IMPORTS}const FOLLOWED = new Set([FOUND.status, SEE_OTHER.status]);`,
+    `logger.info({ status: 201, msg: "created" });`,
+];
+
+ruleTester.run("no-found", eslintPlugin.rules["no-found"], {
+    valid: [
+        ...READS,
+        `${IMPORTS}res.status(SEE_OTHER.status).end();`,
+        `${IMPORTS}new Response(null, { ...SEE_OTHER, headers: { Location: "/" } });`,
+    ],
+    invalid: [
+        `${IMPORTS}res.status(FOUND.status).end();`,
+        `res.statusCode = 302;`,
+        `ctx.status = 302;`,
+        `${IMPORTS}new Response(null, { ...FOUND, headers: { Location: "/" } });`,
+        `${IMPORTS}new Response(null, FOUND);`,
+        `Response.json(data, { status: 302 });`,
+        `${IMPORTS}respond(FOUND, null, { headers: { Location: "/" } });`,
+        `${IMPORTS}redirect(FOUND, "/login");`,
+        `import * as HTTPStatus from "./http-status";\nres.writeHead(HTTPStatus.FOUND.status);`,
+    ].map((code) => ({ code, errors: 1 })),
+});
+
+ruleTester.run("prefer-constant", eslintPlugin.rules["prefer-constant"], {
+    valid: [...READS, `res.status(299);`, `res.status(code);`],
+    invalid: [
+        `res.status(404).end();`,
+        `res.sendStatus(404);`,
+        `res.statusCode = 404;`,
+        `new Response(null, { status: 404 });`,
+    ].map((code) => ({
+        code,
+        errors: [{ message: "Use the NOT_FOUND constant instead of 404." }],
+    })),
+});
+
+ruleTester.run("required-headers", eslintPlugin.rules["required-headers"], {
+    valid: [
+        ...READS,
+        `${IMPORTS}new Response(null, { ...SEE_OTHER, headers: { Location: "/" } });`,
+        `${IMPORTS}new Response(null, { ...SEE_OTHER, ...init });`,
+        `${IMPORTS}respond(SEE_OTHER, null, options);`,
+        `res.writeHead(303, [["Location", "/"]]);`,
+        `res.writeHead(303);`,
+        `${IMPORTS}new Response(body, { ...CREATED, headers: new Headers({ Location: "/1" }) });`,
+    ],
+    invalid: [
+        `${IMPORTS}new Response(null, { ...SEE_OTHER });`,
+        `${IMPORTS}new Response(null, SEE_OTHER);`,
+        `${IMPORTS}respond(SEE_OTHER);`,
+        `res.writeHead(401, { "Content-Type": "text/plain" });`,
+        `${IMPORTS}new Response(null, CREATED);`,
+        `res.writeHead(429, { "Content-Type": "text/plain" });`,
+    ].map((code) => ({ code, errors: 1 })),
+});
+
+test("plugs into a typed ESLint config", () => {
+    const config: Linter.Config = eslintPlugin.configs.recommended;
+    assert.equal(config.rules?.["http-status/required-headers"], "error");
+    assert.equal(config.rules?.["http-status/prefer-constant"], "warn");
+});
+
+const HAR = {
+    log: {
+        entries: [
+            {
+                request: { method: "GET", url: "https://example.com/" },
+                response: {
+                    status: 302,
+                    headers: [{ name: "Location", value: "/a" }],
+                },
+            },
+            {
+                request: {
+                    method: "POST",
+                    url: "https://example.com/orders",
+                },
+                response: { status: 201, headers: [] },
+            },
+            { response: { status: 0 } },
+            { response: { status: 299, headers: [] } },
+            { response: { status: 200, headers: [] } },
+        ],
+    },
+};
+
+test("lints the responses of a HAR file", () => {
+    assert.deepEqual(lintHAR(HAR, { file: "session.har" }), [
+        {
+            rule: "no-found",
+            severity: "error",
+            message:
+                "GET https://example.com/: 302 Found is ambiguous: clients may switch a POST to GET. Use SEE_OTHER or TEMPORARY_REDIRECT.",
+            file: "session.har",
+            pointer: "/log/entries/0/response/status",
+        },
+        {
+            rule: "required-headers",
+            severity: "error",
+            message:
+                "POST https://example.com/orders: A 201 Created response requires the Location header.",
+            file: "session.har",
+            pointer: "/log/entries/1/response/status",
+        },
+    ]);
+    assert.deepEqual(
+        lintHAR(HAR, {
+            rules: { "no-found": "warning", "required-headers": "off" },
+        }).map(({ rule, severity, file }) => [rule, severity, file]),
+        [["no-found", "warning", "<har>"]],
+    );
+    assert.throws(() => lintHAR({ log: {} }), TypeError);
+});
+
+test("formats issues as SARIF", () => {
+    const issues: LintIssue[] = [
+        ...lintHAR(HAR, { file: "session.har" }),
+        {
+            rule: "prefer-constant",
+            severity: "warning",
+            message: "Use the NOT_FOUND constant instead of 404.",
+            file: "src/app.ts",
+            line: 12,
+            column: 5,
+        },
+    ];
+    const sarif = toSARIF(issues);
+    assert.equal(sarif.version, "2.1.0");
+    const [run] = sarif.runs;
+    assert.ok(
+        run.tool.driver.rules.some(({ id }) => id === "prefer-constant"),
+    );
+    assert.deepEqual(
+        run.results.map(({ ruleId, level }) => [ruleId, level]),
+        [
+            ["no-found", "error"],
+            ["required-headers", "error"],
+            ["prefer-constant", "warning"],
+        ],
+    );
+    assert.deepEqual(run.results[2].locations[0].physicalLocation, {
+        artifactLocation: { uri: "src/app.ts" },
+        region: { startLine: 12, startColumn: 5 },
+    });
+});
@@ -0,0 +1,56 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import * as HTTPStatus from "../http-status";
+import { IM_A_TEAPOT, NOT_FOUND, OK } from "../http-status";
+import { getStatusText, listLocales, registerLocale } from "../locale";
+import { de } from "../locales/de";
+import { es } from "../locales/es";
+import { fr } from "../locales/fr";
+
+test("bundles a complete pack for every locale", () => {
+    const codes = Object.values(HTTPStatus)
+        .map(({ status }) => String(status))
+        .sort();
+    assert.equal(codes.length, 63);
+    for (const [tag, pack] of Object.entries({ de, es, fr })) {
+        assert.deepEqual(Object.keys(pack).sort(), codes, tag);
+        for (const text of Object.values(pack)) {
+            assert.ok(text.trim() !== "", `${tag}: empty reason phrase`);
+        }
+    }
+    assert.deepEqual(listLocales().slice(0, 3), ["de", "es", "fr"]);
+});
+
+test("falls back from the most to the least specific locale", () => {
+    assert.equal(getStatusText(NOT_FOUND, "de-AT"), de[404]);
+    assert.equal(getStatusText(NOT_FOUND, "DE_at"), de[404]);
+    assert.equal(getStatusText(NOT_FOUND, ["pt-BR", "es"]), es[404]);
+    assert.equal(
+        getStatusText(NOT_FOUND, "ja", { fallback: ["it", "fr"] }),
+        fr[404],
+    );
+    assert.equal(getStatusText(NOT_FOUND, "ja"), "Not Found");
+    assert.equal(getStatusText(NOT_FOUND, []), "Not Found");
+});
+
+test("registers new locales and overrides existing ones", () => {
+    registerLocale("it", { 404: "Non trovato" });
+    assert.ok(listLocales().includes("it"));
+    assert.equal(getStatusText(NOT_FOUND, "it-CH"), "Non trovato");
+    // Codes missing from a pack fall back along the chain.
+    assert.equal(getStatusText(OK, ["it", "de"]), de[200]);
+    assert.equal(getStatusText(OK, "it"), "OK");
+
+    registerLocale("it", { 200: "Va bene" });
+    assert.equal(getStatusText(NOT_FOUND, "it"), "Non trovato");
+    assert.equal(getStatusText(OK, "it"), "Va bene");
+
+    registerLocale("de-AT", { 404: "Nicht g'funden" });
+    assert.equal(getStatusText(NOT_FOUND, "de-AT"), "Nicht g'funden");
+    assert.equal(getStatusText(NOT_FOUND, "de"), de[404]);
+
+    registerLocale("DE", { 418: "Ich bin ein Teekessel" });
+    assert.equal(getStatusText(IM_A_TEAPOT, "de"), "Ich bin ein Teekessel");
+    assert.equal(getStatusText(NOT_FOUND, "de"), de[404]);
+    assert.equal(IM_A_TEAPOT.statusText, "I'm a teapot");
+});
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import * as HTTPStatus from "../http-status";
+import { NOT_FOUND, PROCESSING, USE_PROXY } from "../http-status";
+import { findStatuses, getMetadata, STATUS_METADATA } from "../metadata";
+import { STATUS_BY_CODE } from "../registry";
+
+test("describes every status code of the registry", () => {
+    assert.deepEqual(
+        Object.keys(STATUS_METADATA),
+        Object.keys(STATUS_BY_CODE),
+    );
+    for (const constant of Object.values(HTTPStatus)) {
+        const metadata = getMetadata(constant);
+        assert.ok(metadata, `${constant.status} has no metadata`);
+        assert.ok(Object.isFrozen(metadata));
+        assert.match(
+            metadata.spec.url,
+            /^https:\/\/www\.rfc-editor\.org\/rfc\/rfc\d+#section-[\d.]+$/,
+        );
+        assert.ok(
+            metadata.mdn.startsWith("https://developer.mozilla.org/"),
+        );
+    }
+    assert.ok(Object.isFrozen(STATUS_METADATA));
+});
+
+test("looks up metadata by code or constant", () => {
+    assert.equal(getMetadata(404), getMetadata(NOT_FOUND));
+    assert.equal(getMetadata(NOT_FOUND)?.spec.rfc, 9110);
+    assert.equal(getMetadata(PROCESSING)?.deprecated, true);
+    assert.equal(getMetadata(499), undefined);
+    assert.equal(getMetadata({ status: 499, statusText: "" }), undefined);
+});
+
+test("finds statuses by metadata in ascending code order", () => {
+    const deprecated = findStatuses((metadata) => metadata.deprecated);
+    assert.deepEqual(
+        deprecated.map(({ status }) => status),
+        [PROCESSING.status, USE_PROXY.status],
+    );
+    assert.equal(deprecated[0].metadata, getMetadata(PROCESSING));
+    assert.equal(deprecated[0].statusText, PROCESSING.statusText);
+
+    const webDAV = findStatuses(
+        (metadata) => metadata.extension === "WebDAV",
+    ).map(({ status }) => status);
+    assert.deepEqual(
+        webDAV,
+        [...webDAV].sort((a, b) => a - b),
+    );
+    assert.ok(webDAV.includes(207));
+    assert.ok(webDAV.includes(423));
+});
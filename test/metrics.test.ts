@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { NOT_FOUND, OK, SERVICE_UNAVAILABLE } from "../http-status";
+import {
+    createMetrics,
+    statusClassLabel,
+    type MetricsClock,
+} from "../metrics";
+
+const fakeClock = () => {
+    let now = 1_000_000;
+    const clock: MetricsClock = { now: () => now };
+    const advance = (seconds: number) => {
+        now += seconds * 1000;
+    };
+
+    return { clock, advance };
+};
+
+test("labels the class of a status", () => {
+    assert.equal(statusClassLabel(100), "1xx");
+    assert.equal(statusClassLabel(NOT_FOUND), "4xx");
+    assert.equal(statusClassLabel(599), "5xx");
+});
+
+test("rejects codes outside 100 to 599 when labelling the class", () => {
+    for (const code of [0, 99, 600, 999, 200.5, NaN]) {
+        assert.throws(() => statusClassLabel(code), RangeError);
+    }
+    assert.throws(
+        () => createMetrics().record({ status: 600 }),
+        RangeError,
+    );
+});
+
+test("computes the error and burn rates over each window", () => {
+    const { clock, advance } = fakeClock();
+    const metrics = createMetrics({
+        slo: 0.99,
+        windows: [60, 300],
+        clock,
+    });
+
+    metrics.record({ status: SERVICE_UNAVAILABLE });
+    metrics.record({ status: OK });
+    advance(120);
+    metrics.record({ status: OK });
+    metrics.record({ status: NOT_FOUND });
+
+    assert.deepEqual(metrics.windows(), [
+        { window: 60, total: 2, failures: 0, errorRate: 0, burnRate: 0 },
+        {
+            window: 300,
+            total: 4,
+            failures: 1,
+            errorRate: 0.25,
+            burnRate: 25,
+        },
+    ]);
+
+    advance(300);
+    assert.deepEqual(
+        metrics.windows().map(({ total }) => total),
+        [0, 0],
+    );
+});
+
+test("keeps the windows and pruning right when the clock goes backwards", () => {
+    const { clock, advance } = fakeClock();
+    const metrics = createMetrics({ windows: [60], clock });
+    const totals = () =>
+        metrics.windows().map(({ total, failures }) => [total, failures]);
+
+    advance(100);
+    metrics.record({ status: OK });
+    advance(-100);
+    metrics.record({ status: SERVICE_UNAVAILABLE });
+    // The response recorded 100 seconds ahead is not in the window yet.
+    assert.deepEqual(totals(), [[1, 1]]);
+
+    advance(130);
+    metrics.record({ status: OK });
+    assert.deepEqual(totals(), [[2, 0]]);
+
+    // The failure was recorded after a newer slot, and must still have been
+    // pruned once out of every window.
+    advance(-130);
+    assert.deepEqual(totals(), [[0, 0]]);
+});
+
+test("counts the responses by route, method and status", () => {
+    const { clock } = fakeClock();
+    const metrics = createMetrics({ windows: [300], clock });
+
+    metrics.record({ status: 503, route: "/users/:id", method: "get" });
+    metrics.record({
+        status: SERVICE_UNAVAILABLE,
+        route: "/users/:id",
+        method: "GET",
+    });
+
+    assert.deepEqual(
+        metrics
+            .series()
+            .map(({ name, class: label, count }) => [name, label, count]),
+        [["SERVICE_UNAVAILABLE", "5xx", 2]],
+    );
+    const lines = metrics.toPrometheus().split("\n");
+    assert.ok(
+        lines.includes(
+            'http_server_responses_total{route="/users/:id",method="GET",status_code="503",status_name="SERVICE_UNAVAILABLE",status_class="5xx"} 2',
+        ),
+    );
+    assert.ok(lines.includes('http_server_error_ratio{window="5m"} 1'));
+    assert.ok(
+        lines.includes('http_server_slo_burn_rate{window="5m"} 1000'),
+    );
+});
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { NOT_ACCEPTABLE } from "../http-status";
+import {
+    negotiateEncoding,
+    negotiateLanguage,
+    negotiateMediaType,
+} from "../negotiation";
+
+const value = <Value>(result: { ok: boolean; value?: Value }) =>
+    result.ok ? result.value : undefined;
+
+test("chooses the most specific acceptable media type", () => {
+    const available = ["application/json", "text/html"];
+    assert.equal(
+        value(negotiateMediaType("text/*", available)),
+        "text/html",
+    );
+    assert.equal(
+        value(negotiateMediaType("*/*;q=0.1, application/json", available)),
+        "application/json",
+    );
+    const result = negotiateMediaType("image/png", available);
+    assert.equal(result.ok ? undefined : result.status, NOT_ACCEPTABLE);
+    assert.equal(result.headers.get("Vary"), "Accept");
+});
+
+test("accepts anything without a header, and nothing with an empty one", () => {
+    assert.equal(
+        value(negotiateMediaType(null, ["text/html"])),
+        "text/html",
+    );
+    assert.equal(negotiateMediaType("", ["text/html"]).ok, false);
+    assert.equal(
+        value(negotiateMediaType("", ["text/html"], { strict: false })),
+        "text/html",
+    );
+    assert.equal(value(negotiateLanguage(null, ["en", "fr"])), "en");
+    assert.equal(negotiateLanguage(" ", ["en", "fr"]).ok, false);
+});
+
+test("only accepts identity with an empty Accept-Encoding", () => {
+    const available = ["br", "gzip"];
+    assert.equal(value(negotiateEncoding(null, available)), "br");
+    assert.equal(value(negotiateEncoding("", available)), "identity");
+    assert.equal(
+        value(negotiateEncoding("gzip;q=0.8, br", available)),
+        "br",
+    );
+    assert.equal(
+        value(negotiateEncoding("deflate", available)),
+        "identity",
+    );
+    assert.equal(negotiateEncoding("*;q=0", available).ok, false);
+});
@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+    CONFLICT,
+    CREATED,
+    NO_CONTENT,
+    NOT_FOUND,
+    OK,
+    SEE_OTHER,
+    TOO_MANY_REQUESTS,
+} from "../http-status";
+import {
+    openAPIResponses,
+    problemDetailsSchema,
+    validateOpenAPI,
+} from "../openapi";
+
+const REQUIRED_STRING = { required: true, schema: { type: "string" } };
+
+test("generates responses with their descriptions and required headers", () => {
+    const responses = openAPIResponses(
+        [TOO_MANY_REQUESTS, CREATED, SEE_OTHER, OK],
+        { schemas: { 201: { $ref: "#/components/schemas/Article" } } },
+    );
+    assert.deepEqual(Object.keys(responses), ["200", "201", "303", "429"]);
+    assert.deepEqual(responses[200], { description: "OK" });
+    assert.deepEqual(responses[201], {
+        description: "Created",
+        headers: { Location: REQUIRED_STRING },
+        content: {
+            "application/json": {
+                schema: { $ref: "#/components/schemas/Article" },
+            },
+        },
+    });
+    assert.deepEqual(responses[303].headers, { Location: REQUIRED_STRING });
+    assert.deepEqual(responses[429].headers, {
+        "Retry-After": REQUIRED_STRING,
+    });
+});
+
+test("describes errors with a Problem Details body by default", () => {
+    const responses = openAPIResponses([NOT_FOUND, CONFLICT], {
+        problemSchema: { $ref: "#/components/schemas/Problem" },
+        schemas: { 409: { type: "object" } },
+        contentType: "application/vnd.api+json",
+    });
+    assert.deepEqual(responses[404].content, {
+        "application/problem+json": {
+            schema: { $ref: "#/components/schemas/Problem" },
+        },
+    });
+    assert.deepEqual(responses[409].content, {
+        "application/vnd.api+json": { schema: { type: "object" } },
+    });
+
+    assert.deepEqual(
+        openAPIResponses([NOT_FOUND])[404].content?.[
+            "application/problem+json"
+        ]?.schema,
+        problemDetailsSchema(NOT_FOUND),
+    );
+    assert.equal(
+        openAPIResponses([NOT_FOUND], { problemSchema: false })[404]
+            .content,
+        undefined,
+    );
+});
+
+test("rejects a schema for a status without content", () => {
+    assert.throws(
+        () => openAPIResponses([NO_CONTENT], { schemas: { 204: {} } }),
+        TypeError,
+    );
+});
+
+test("validates the responses of every operation", () => {
+    const document = {
+        openapi: "3.1.0",
+        paths: {
+            "/articles": {
+                post: {
+                    responses: {
+                        "201": { description: "Created" },
+                        "204": {
+                            description: "No Content",
+                            content: { "application/json": {} },
+                        },
+                        "305": { description: "Use Proxy" },
+                        "306": { description: "Unused" },
+                        "429": { $ref: "#/components/responses/Limited" },
+                        "499": { description: "Closed" },
+                        "4XX": { description: "Client error" },
+                        default: { description: "Error" },
+                        "2xx": { description: "Success" },
+                    },
+                },
+            },
+        },
+        webhooks: {
+            created: {
+                post: {
+                    responses: openAPIResponses([
+                        CREATED,
+                        TOO_MANY_REQUESTS,
+                    ]),
+                },
+            },
+        },
+        components: {
+            responses: { Limited: { description: "Too Many Requests" } },
+        },
+    };
+    const base = "/paths/~1articles/post/responses";
+    assert.deepEqual(
+        validateOpenAPI(document).map(({ pointer, code, severity }) => [
+            pointer,
+            code,
+            severity,
+        ]),
+        [
+            [`${base}/201`, "missing-header", "warning"],
+            [`${base}/204`, "unexpected-content", "error"],
+            [`${base}/305`, "deprecated-status", "warning"],
+            [`${base}/306`, "unused-status", "error"],
+            [`${base}/429`, "missing-header", "warning"],
+            [`${base}/499`, "unknown-status", "warning"],
+            [`${base}/2xx`, "invalid-code", "error"],
+        ],
+    );
+    assert.equal(
+        validateOpenAPI(document)[4].message,
+        "A 429 Too Many Requests response requires the Retry-After header.",
+    );
+    assert.throws(() => validateOpenAPI(null), TypeError);
+});
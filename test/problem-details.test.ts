@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { HTTPError } from "../http-error";
+import { FORBIDDEN, NOT_FOUND, TOO_MANY_REQUESTS } from "../http-status";
+import {
+    ABOUT_BLANK,
+    parseProblemDetails,
+    problem,
+    problemResponse,
+    problemResponseFromError,
+    PROBLEM_JSON,
+    readProblemDetails,
+} from "../problem-details";
+
+test("builds a document from a status constant", () => {
+    assert.deepEqual(problem(NOT_FOUND), {
+        type: ABOUT_BLANK,
+        title: "Not Found",
+        status: 404,
+    });
+
+    const document = problem(FORBIDDEN, {
+        type: "https://example.com/probs/out-of-credit",
+        detail: "Your current balance is 30, but that costs 50.",
+        instance: "/account/12345/msgs/abc",
+        extensions: { balance: 30, accounts: ["/account/12345"] },
+    });
+    assert.deepEqual(document, {
+        type: "https://example.com/probs/out-of-credit",
+        title: "Forbidden",
+        status: 403,
+        detail: "Your current balance is 30, but that costs 50.",
+        instance: "/account/12345/msgs/abc",
+        balance: 30,
+        accounts: ["/account/12345"],
+    });
+    assert.ok(Object.isFrozen(document));
+});
+
+test("keeps extension members from overriding the standard ones", () => {
+    const extensions = JSON.parse(
+        '{"status": 200, "title": "OK", "code": 7}',
+    );
+    assert.deepEqual(problem(NOT_FOUND, { extensions }), {
+        type: ABOUT_BLANK,
+        title: "Not Found",
+        status: 404,
+        code: 7,
+    });
+    // @ts-expect-error `status` is not an extension member
+    problem(NOT_FOUND, { extensions: { status: 200 } });
+});
+
+test("serializes a document in a problem+json response", async () => {
+    const response = problemResponse(
+        TOO_MANY_REQUESTS,
+        { detail: "Slow down." },
+        { headers: { "Retry-After": "30" } },
+    );
+    assert.equal(response.status, 429);
+    assert.equal(response.statusText, "Too Many Requests");
+    assert.equal(response.headers.get("Content-Type"), PROBLEM_JSON);
+    assert.equal(response.headers.get("Retry-After"), "30");
+    assert.deepEqual(await response.json(), {
+        type: ABOUT_BLANK,
+        title: "Too Many Requests",
+        status: 429,
+        detail: "Slow down.",
+    });
+
+    const fromError = problemResponseFromError(
+        new HTTPError(NOT_FOUND, "No article 7.", {
+            headers: { "Cache-Control": "no-store" },
+        }),
+        { instance: "/articles/7" },
+    );
+    assert.equal(fromError.headers.get("Cache-Control"), "no-store");
+    assert.deepEqual(await fromError.json(), {
+        type: ABOUT_BLANK,
+        title: "Not Found",
+        status: 404,
+        detail: "No article 7.",
+        instance: "/articles/7",
+    });
+});
+
+test("parses a document, ignoring members of the wrong type", () => {
+    assert.deepEqual(
+        parseProblemDetails({
+            type: "https://example.com/probs/out-of-credit",
+            title: "You do not have enough credit.",
+            status: 403,
+            balance: 30,
+        }),
+        {
+            type: "https://example.com/probs/out-of-credit",
+            title: "You do not have enough credit.",
+            status: 403,
+            balance: 30,
+        },
+    );
+    assert.deepEqual(
+        parseProblemDetails({
+            type: 42,
+            title: null,
+            status: "404",
+            detail: ["no"],
+            instance: {},
+        }),
+        { type: ABOUT_BLANK },
+    );
+    assert.deepEqual(parseProblemDetails({ status: 600 }), {
+        type: ABOUT_BLANK,
+    });
+    assert.deepEqual(parseProblemDetails({ status: 404.5 }), {
+        type: ABOUT_BLANK,
+    });
+    for (const value of [null, undefined, "problem", 404, [], true]) {
+        assert.equal(parseProblemDetails(value), undefined);
+    }
+});
+
+test("reads a document from a response", async () => {
+    const result = await readProblemDetails(
+        new Response('{"status": 429, "title": "Too Many Requests"}', {
+            status: 503,
+            headers: {
+                "Content-Type": "application/problem+json; charset=utf-8",
+            },
+        }),
+    );
+    assert.equal(result?.status, TOO_MANY_REQUESTS);
+    assert.equal(result?.problem.type, ABOUT_BLANK);
+
+    const withoutStatus = await readProblemDetails(
+        new Response("{}", {
+            status: 404,
+            headers: { "Content-Type": PROBLEM_JSON },
+        }),
+    );
+    assert.equal(withoutStatus?.status, NOT_FOUND);
+
+    for (const response of [
+        new Response("{}", {
+            headers: { "Content-Type": "application/json" },
+        }),
+        new Response("not json", {
+            headers: { "Content-Type": PROBLEM_JSON },
+        }),
+        new Response("[1]", { headers: { "Content-Type": PROBLEM_JSON } }),
+    ]) {
+        assert.equal(await readProblemDetails(response), undefined);
+    }
+});
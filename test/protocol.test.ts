@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+    NOT_FOUND,
+    SERVICE_UNAVAILABLE,
+    SWITCHING_PROTOCOLS,
+    UPGRADE_REQUIRED,
+} from "../http-status";
+import {
+    fromHTTP2Fields,
+    parseStatusPseudoHeader,
+    protocolSupport,
+    toHTTP2Fields,
+} from "../protocol";
+import { formatResponseHead, parseResponseHead } from "../status-line";
+
+test("round-trips HTTP/2 fields through an HTTP/1.1 head", () => {
+    const fields = [
+        [":status", "503"],
+        ["retry-after", "120"],
+        ["content-type", "text/plain"],
+    ] as const;
+    const head = fromHTTP2Fields(fields);
+    assert.equal(head.statusLine.resolved, SERVICE_UNAVAILABLE);
+    assert.equal(head.statusLine.reasonPhrase, "Service Unavailable");
+
+    const raw = formatResponseHead(head.statusLine.resolved, head.headers);
+    assert.deepEqual(toHTTP2Fields(parseResponseHead(raw)), fields);
+    assert.deepEqual(toHTTP2Fields(head, "HTTP/3"), fields);
+});
+
+test("round-trips an HTTP/1.1 head through HTTP/2 fields", () => {
+    const head = parseResponseHead(
+        "HTTP/1.1 404 Not Found\r\nConnection: keep-alive, X-Hop\r\nX-Hop: 1\r\nContent-Type: text/html\r\nSet-Cookie: a=1\r\nSet-Cookie: b=2\r\n\r\n",
+    );
+    const fields = toHTTP2Fields(head);
+    assert.deepEqual(fields, [
+        [":status", "404"],
+        ["content-type", "text/html"],
+        ["set-cookie", "a=1"],
+        ["set-cookie", "b=2"],
+    ]);
+
+    const back = fromHTTP2Fields(fields);
+    assert.equal(back.statusLine.resolved, NOT_FOUND);
+    assert.deepEqual(back.headers, fields.slice(1));
+    assert.deepEqual(toHTTP2Fields(back), fields);
+});
+
+test("reads node:http2 headers objects", () => {
+    const head = fromHTTP2Fields({
+        ":status": 404,
+        "set-cookie": ["a=1", "b=2"],
+        "content-length": 0,
+        "x-absent": undefined,
+    });
+    assert.equal(head.statusLine.resolved, NOT_FOUND);
+    assert.deepEqual(head.headers, [
+        ["set-cookie", "a=1"],
+        ["set-cookie", "b=2"],
+        ["content-length", "0"],
+    ]);
+});
+
+test("accepts a received 426 that may not be sent", () => {
+    assert.equal(parseStatusPseudoHeader("426"), UPGRADE_REQUIRED);
+    assert.equal(
+        fromHTTP2Fields({ ":status": "426" }, "HTTP/3").statusLine.resolved,
+        UPGRADE_REQUIRED,
+    );
+
+    const received = protocolSupport(UPGRADE_REQUIRED, "HTTP/2", {
+        direction: "received",
+    });
+    assert.equal(received.allowed, true);
+    assert.match(received.note ?? "", /Upgrade header/);
+    assert.equal(
+        protocolSupport(UPGRADE_REQUIRED, "HTTP/2").allowed,
+        false,
+    );
+    assert.throws(
+        () =>
+            toHTTP2Fields(
+                parseResponseHead(
+                    "HTTP/1.1 426 Upgrade Required\r\nUpgrade: h2c\r\n\r\n",
+                ),
+            ),
+        TypeError,
+    );
+});
+
+test("rejects malformed HTTP/2 fields", () => {
+    assert.throws(() => parseStatusPseudoHeader("101"), SyntaxError);
+    assert.equal(
+        protocolSupport(SWITCHING_PROTOCOLS, "HTTP/2", {
+            direction: "received",
+        }).allowed,
+        false,
+    );
+    for (const fields of [
+        [],
+        [["content-type", "text/plain"]],
+        [
+            [":status", "200"],
+            [":status", "200"],
+        ],
+        [
+            ["content-type", "text/plain"],
+            [":status", "200"],
+        ],
+        [
+            [":status", "200"],
+            [":path", "/"],
+        ],
+        [
+            [":status", "200"],
+            ["Content-Type", "text/plain"],
+        ],
+        [
+            [":status", "200"],
+            ["connection", "close"],
+        ],
+        [[":status", "20"]],
+    ] as const) {
+        assert.throws(() => fromHTTP2Fields(fields), SyntaxError);
+    }
+});
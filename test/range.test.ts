@@ -0,0 +1,147 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+    formatContentRange,
+    parseRange,
+    rangeResponse,
+    type RangeSource,
+} from "../range";
+
+const CONTENT = "0123456789abcdefghij";
+const SOURCE: RangeSource = new Blob([CONTENT], { type: "text/plain" });
+
+const get = (headers: Record<string, string>, method = "GET") =>
+    rangeResponse({ method, headers }, SOURCE, {
+        resource: {
+            etag: '"v1"',
+            lastModified: "Wed, 21 Oct 2015 07:28:00 GMT",
+        },
+    });
+
+test("parses single, open-ended, suffix and multiple ranges", () => {
+    assert.deepEqual(parseRange("bytes=0-4", 20), {
+        type: "ranges",
+        ranges: [{ start: 0, end: 4 }],
+    });
+    assert.deepEqual(parseRange("bytes=15-", 20), {
+        type: "ranges",
+        ranges: [{ start: 15, end: 19 }],
+    });
+    assert.deepEqual(parseRange("bytes=-5", 20), {
+        type: "ranges",
+        ranges: [{ start: 15, end: 19 }],
+    });
+    assert.deepEqual(parseRange("bytes=-50", 20), {
+        type: "ranges",
+        ranges: [{ start: 0, end: 19 }],
+    });
+    assert.deepEqual(parseRange("bytes=10-14, 0-4, 3-6", 20), {
+        type: "ranges",
+        ranges: [
+            { start: 0, end: 6 },
+            { start: 10, end: 14 },
+        ],
+    });
+    assert.deepEqual(
+        parseRange("bytes=10-14,0-4", 20, { coalesce: false }),
+        {
+            type: "ranges",
+            ranges: [
+                { start: 10, end: 14 },
+                { start: 0, end: 4 },
+            ],
+        },
+    );
+});
+
+test("tells unsatisfiable ranges from malformed ones", () => {
+    assert.deepEqual(parseRange("bytes=20-", 20), {
+        type: "unsatisfiable",
+    });
+    assert.deepEqual(parseRange("bytes=-0", 20), { type: "unsatisfiable" });
+    for (const value of [
+        "bytes=5-1",
+        "bytes=-",
+        "bytes=a-b",
+        "bytes=",
+        "items=0-4",
+        "0-4",
+    ]) {
+        assert.deepEqual(parseRange(value, 20), { type: "ignore" }, value);
+    }
+    assert.deepEqual(
+        parseRange("bytes=0-1,2-3,4-5", 20, { maxRanges: 2 }),
+        {
+            type: "ignore",
+        },
+    );
+    assert.equal(formatContentRange(undefined, 20), "bytes */20");
+});
+
+test("answers a single range with 206 and Content-Range", async () => {
+    const response = await get({ Range: "bytes=2-5" });
+    assert.equal(response.status, 206);
+    assert.equal(response.headers.get("Content-Range"), "bytes 2-5/20");
+    assert.equal(response.headers.get("Content-Length"), "4");
+    assert.equal(response.headers.get("Content-Type"), "text/plain");
+    assert.equal(await response.text(), "2345");
+
+    const suffix = await get({ Range: "bytes=-3" });
+    assert.equal(suffix.headers.get("Content-Range"), "bytes 17-19/20");
+    assert.equal(await suffix.text(), "hij");
+});
+
+test("answers several ranges with a multipart/byteranges body", async () => {
+    const response = await get({ Range: "bytes=0-1,-2" });
+    assert.equal(response.status, 206);
+    const boundary = /^multipart\/byteranges; boundary=(\w+)$/.exec(
+        response.headers.get("Content-Type") ?? "",
+    )?.[1];
+    assert.ok(boundary);
+
+    const body = await response.text();
+    assert.equal(
+        body,
+        `\r\n--${boundary}\r\nContent-Type: text/plain\r\nContent-Range: bytes 0-1/20\r\n\r\n01` +
+            `\r\n--${boundary}\r\nContent-Type: text/plain\r\nContent-Range: bytes 18-19/20\r\n\r\nij` +
+            `\r\n--${boundary}--\r\n`,
+    );
+    assert.equal(
+        response.headers.get("Content-Length"),
+        String(new TextEncoder().encode(body).length),
+    );
+});
+
+test("answers an unsatisfiable range with 416", async () => {
+    const response = await get({ Range: "bytes=30-40" });
+    assert.equal(response.status, 416);
+    assert.equal(response.headers.get("Content-Range"), "bytes */20");
+    assert.equal(await response.text(), "");
+});
+
+test("sends the full representation when the range does not apply", async () => {
+    for (const [headers, method] of [
+        [{}, "GET"],
+        [{ Range: "bytes=5-1" }, "GET"],
+        [{ Range: "lines=1-2" }, "GET"],
+        [{ Range: "bytes=0-4", "If-Range": '"v2"' }, "GET"],
+        [{ Range: "bytes=0-4", "If-Range": 'W/"v1"' }, "GET"],
+        [
+            {
+                Range: "bytes=0-4",
+                "If-Range": "Thu, 22 Oct 2015 07:28:00 GMT",
+            },
+            "GET",
+        ],
+        [{ Range: "bytes=0-4" }, "POST"],
+    ] as const) {
+        const response = await get(headers, method);
+        assert.equal(response.status, 200);
+        assert.equal(response.headers.get("Accept-Ranges"), "bytes");
+        assert.equal(response.headers.get("Content-Length"), "20");
+        assert.equal(await response.text(), CONTENT);
+    }
+
+    const matching = await get({ Range: "bytes=0-4", "If-Range": '"v1"' });
+    assert.equal(matching.status, 206);
+});
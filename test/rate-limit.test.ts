@@ -0,0 +1,136 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+    createMemoryStore,
+    createRateLimiter,
+    type RateLimitStore,
+} from "../rate-limit";
+
+const fakeClock = (start = 0) => {
+    const clock = { time: start, now: () => clock.time };
+
+    return clock;
+};
+
+/**
+ * A store keeping plain numbers, recording the operations a shared store would run.
+ */
+const fakeStore = () => {
+    const values = new Map<string, number>();
+    const calls: string[] = [];
+    const store: RateLimitStore = {
+        increment: async (
+            key,
+            amount,
+            { floor = 0, ceiling = Infinity },
+        ) => {
+            calls.push(`increment ${key}`);
+            const value = Math.max(values.get(key) ?? floor, floor);
+            if (value + amount > ceiling) {
+                return { value, applied: false };
+            }
+            values.set(key, value + amount);
+
+            return { value: value + amount, applied: true };
+        },
+        get: async (key) => {
+            calls.push(`get ${key}`);
+
+            return values.get(key);
+        },
+        delete: async (key) => {
+            calls.push(`delete ${key}`);
+            values.delete(key);
+        },
+    };
+
+    return { store, values, calls };
+};
+
+test("token bucket: allows a burst, then refills continuously", async () => {
+    const clock = fakeClock(1_000_000);
+    const { store } = fakeStore();
+    const limiter = createRateLimiter({
+        algorithm: "token-bucket",
+        limit: 10,
+        window: 60,
+        store,
+        clock,
+    });
+
+    for (let request = 1; request <= 10; request++) {
+        const result = await limiter.consume("client");
+        assert.equal(result.allowed, true);
+        assert.equal(result.remaining, 10 - request);
+    }
+
+    const denied = await limiter.consume("client");
+    assert.equal(denied.allowed, false);
+    assert.equal(denied.allowed || denied.retryAfter, 6);
+    assert.equal(denied.headers.get("Retry-After"), "6");
+    assert.equal(denied.headers.get("RateLimit"), '"default";r=0;t=60');
+
+    clock.time += 6000;
+    assert.equal((await limiter.consume("client")).allowed, true);
+    assert.equal((await limiter.consume("client")).allowed, false);
+
+    await limiter.reset("client");
+    assert.equal((await limiter.consume("client")).remaining, 9);
+});
+
+test("sliding window: weighs the previous window", async () => {
+    const clock = fakeClock(0);
+    const { store, calls } = fakeStore();
+    const limiter = createRateLimiter({
+        algorithm: "sliding-window",
+        limit: 4,
+        window: 10,
+        store,
+        clock,
+    });
+
+    for (let request = 0; request < 4; request++) {
+        assert.equal((await limiter.consume("client")).allowed, true);
+    }
+    assert.equal((await limiter.consume("client")).allowed, false);
+    assert.deepEqual(calls.slice(0, 2), [
+        "get client:-10000",
+        "increment client:0",
+    ]);
+
+    // Halfway through the next window, the previous one still counts for 2.
+    clock.time = 15_000;
+    assert.equal((await limiter.consume("client")).allowed, true);
+    assert.equal((await limiter.consume("client")).allowed, true);
+    const denied = await limiter.consume("client");
+    assert.equal(denied.allowed, false);
+    assert.equal(denied.allowed || denied.retryAfter, 3);
+
+    clock.time = 18_000;
+    assert.equal((await limiter.consume("client")).allowed, true);
+});
+
+test("memory store: expires entries of limiters sharing it", async () => {
+    const clock = fakeClock(0);
+    const store = createMemoryStore(clock);
+    await store.increment("long", 1, { ttl: 10_000 });
+    await store.increment("short", 1, { ttl: 1000 });
+    await store.increment("long", 1, { ttl: 10_000 });
+
+    clock.time = 2000;
+    assert.equal(await store.get("short"), undefined);
+    assert.equal(await store.get("long"), 2);
+    assert.deepEqual(
+        await store.increment("long", 5, { ttl: 10_000, ceiling: 6 }),
+        { value: 2, applied: false },
+    );
+    assert.deepEqual(
+        await store.increment("short", 1, { ttl: 1000, floor: 5 }),
+        { value: 6, applied: true },
+    );
+
+    clock.time = 20_000;
+    assert.equal(await store.get("long"), undefined);
+    await store.delete("short");
+    assert.equal(await store.get("short"), undefined);
+});
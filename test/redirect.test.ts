@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { followRedirects } from "../redirect";
+
+const redirect = (status: number, location: string) =>
+    new Response(null, { status, headers: { Location: location } });
+
+test("detects a redirect loop before reaching the limit", async () => {
+    const requests: string[] = [];
+    await assert.rejects(
+        followRedirects("https://example.com/a", undefined, {
+            maxRedirects: 20,
+            fetch: async (request) => {
+                requests.push(request.url);
+
+                return redirect(
+                    302,
+                    request.url.endsWith("/a") ? "/b" : "/a",
+                );
+            },
+        }),
+        {
+            name: "TypeError",
+            message:
+                "Redirect loop detected: GET https://example.com/a → GET https://example.com/b → GET https://example.com/a",
+        },
+    );
+    assert.deepEqual(requests, [
+        "https://example.com/a",
+        "https://example.com/b",
+    ]);
+});
+
+test("follows the same URL again once the method or body changes", async () => {
+    const requests: string[] = [];
+    const response = await followRedirects(
+        "https://example.com/orders",
+        { method: "POST", body: "{}" },
+        {
+            fetch: async (request) => {
+                requests.push(`${request.method} ${request.url}`);
+
+                return requests.length === 1
+                    ? redirect(303, "/orders")
+                    : new Response("orders");
+            },
+        },
+    );
+    assert.equal(await response.text(), "orders");
+    assert.deepEqual(requests, [
+        "POST https://example.com/orders",
+        "GET https://example.com/orders",
+    ]);
+});
+
+test("stops after maxRedirects redirections", async () => {
+    let requests = 0;
+    await assert.rejects(
+        followRedirects("https://example.com/0", undefined, {
+            maxRedirects: 3,
+            fetch: async () => {
+                requests++;
+
+                return redirect(307, `/${requests}`);
+            },
+        }),
+        /Too many redirects/,
+    );
+    assert.equal(requests, 4);
+});
+
+test("rewrites POST to GET on 303 and reports obsolete statuses", async () => {
+    const warnings: string[] = [];
+    const methods: string[] = [];
+    const response = await followRedirects(
+        "https://example.com/orders",
+        { method: "POST", body: "{}" },
+        {
+            onWarning: (warning) => warnings.push(warning),
+            fetch: async (request) => {
+                methods.push(request.method);
+
+                return methods.length === 1
+                    ? redirect(303, "/orders/1")
+                    : new Response(null, { status: 305 });
+            },
+        },
+    );
+    assert.equal(response.status, 305);
+    assert.deepEqual(methods, ["POST", "GET"]);
+    assert.equal(warnings.length, 1);
+});
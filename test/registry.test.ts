@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import * as HTTPStatus from "../http-status";
+import { NOT_FOUND, OK, TOO_MANY_REQUESTS } from "../http-status";
+import {
+    fromCode,
+    fromName,
+    fromStatusText,
+    isKnownStatus,
+    NAME_BY_CODE,
+    nameOf,
+    STATUS_BY_CODE,
+} from "../registry";
+
+test("indexes every constant by code and name", () => {
+    const constants = Object.values(HTTPStatus);
+    assert.equal(Object.keys(STATUS_BY_CODE).length, constants.length);
+    for (const [name, constant] of Object.entries(HTTPStatus)) {
+        assert.equal(STATUS_BY_CODE[constant.status], constant);
+        assert.equal(NAME_BY_CODE[constant.status], name);
+    }
+    assert.ok(Object.isFrozen(STATUS_BY_CODE));
+    assert.ok(Object.isFrozen(NAME_BY_CODE));
+});
+
+test("looks up a status by code", () => {
+    const notFound: typeof NOT_FOUND = fromCode(404);
+    assert.equal(notFound, NOT_FOUND);
+
+    const unknown = fromCode(499);
+    assert.deepEqual(unknown, {
+        status: 499,
+        statusText: "",
+        unknown: true,
+    });
+    assert.ok(Object.isFrozen(unknown));
+    assert.equal(isKnownStatus(unknown), false);
+    assert.equal(isKnownStatus(fromCode(200)), true);
+    assert.equal(isKnownStatus({ status: 404, statusText: "" }), true);
+});
+
+test("looks up a status by text in any case", () => {
+    const notFound: typeof NOT_FOUND = fromStatusText("not found");
+    assert.equal(notFound, NOT_FOUND);
+    assert.equal(fromStatusText("TOO MANY REQUESTS"), TOO_MANY_REQUESTS);
+
+    const missing: undefined = fromStatusText("Teapot");
+    assert.equal(missing, undefined);
+    assert.equal(fromStatusText(""), undefined);
+});
+
+test("looks up a status by name, and only by a constant name", () => {
+    const ok: typeof OK = fromName("OK");
+    assert.equal(ok, OK);
+
+    const missing: undefined = fromName("TEAPOT");
+    assert.equal(missing, undefined);
+    for (const name of ["__esModule", "constructor", "toString", "ok"]) {
+        assert.equal(fromName(name), undefined, name);
+    }
+});
+
+test("returns the name of a status", () => {
+    assert.equal(nameOf(404), "NOT_FOUND");
+    assert.equal(nameOf(TOO_MANY_REQUESTS), "TOO_MANY_REQUESTS");
+    assert.equal(nameOf(499), undefined);
+    assert.equal(nameOf(fromCode(499)), undefined);
+});
@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { CREATED, SEE_OTHER, TOO_MANY_REQUESTS } from "../http-status";
+import {
+    missingHeaders,
+    noContent,
+    notModified,
+    respond,
+    RECOMMENDED_HEADERS,
+} from "../responses";
+
+test("requires only the headers a status mandates", () => {
+    assert.deepEqual(missingHeaders(SEE_OTHER, {}), ["Location"]);
+    assert.deepEqual(missingHeaders(CREATED, {}), []);
+    assert.equal(respond(CREATED, "{}").status, 201);
+    assert.equal(respond(TOO_MANY_REQUESTS).status, 429);
+    assert.deepEqual(RECOMMENDED_HEADERS[201], ["Location"]);
+});
+
+test("rejects a body passed to a factory without content", () => {
+    const bodies: unknown[] = [
+        "text",
+        new Blob(["text"]),
+        new Uint8Array(4),
+        new ArrayBuffer(4),
+        new ReadableStream(),
+        new FormData(),
+        new URLSearchParams("a=1"),
+        null,
+    ];
+    for (const body of bodies) {
+        assert.throws(() => noContent(body as never), TypeError);
+        assert.throws(() => notModified(body as never), TypeError);
+    }
+
+    const headers = { ETag: '"1"' };
+    assert.equal(notModified({ headers }).headers.get("ETag"), '"1"');
+    assert.equal(noContent().status, 204);
+});
@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+    backoffDelay,
+    fetchWithRetry,
+    parseRetryAfter,
+    shouldRetry,
+    type RetryClock,
+} from "../retry";
+
+const NOW = Date.UTC(2015, 9, 21, 7, 28, 0);
+
+const fakeClock = () => {
+    let now = NOW;
+    const sleeps: number[] = [];
+    const clock: RetryClock = {
+        now: () => now,
+        sleep: async (milliseconds) => {
+            sleeps.push(milliseconds);
+            now += milliseconds;
+        },
+    };
+
+    return { clock, sleeps };
+};
+
+test("grows the backoff delay exponentially up to the maximum", () => {
+    const options = {
+        jitter: "none",
+        baseDelay: 100,
+        maxDelay: 1000,
+    } as const;
+    assert.deepEqual(
+        [1, 2, 3, 4, 5].map((attempt) => backoffDelay(attempt, options)),
+        [100, 200, 400, 800, 1000],
+    );
+    assert.equal(backoffDelay(3, { ...options, factor: 3 }), 900);
+});
+
+test("picks a random delay below the backoff delay with full jitter", () => {
+    assert.equal(backoffDelay(3, { random: () => 0.5 }), 200);
+    assert.equal(backoffDelay(3, { random: () => 0 }), 0);
+});
+
+test("parses Retry-After as seconds or as an HTTP-date", () => {
+    assert.equal(parseRetryAfter("120", NOW), 120_000);
+    assert.equal(parseRetryAfter(" 0 ", NOW), 0);
+    assert.equal(
+        parseRetryAfter("Wed, 21 Oct 2015 07:30:00 GMT", NOW),
+        120_000,
+    );
+    assert.equal(parseRetryAfter("Wed, 21 Oct 2015 07:00:00 GMT", NOW), 0);
+    for (const value of [undefined, null, "", "-1", "1.5", "soon"]) {
+        assert.equal(parseRetryAfter(value, NOW), undefined);
+    }
+});
+
+test("does not replay a non-idempotent request the server may have processed", () => {
+    const request = { method: "POST", attempt: 1 };
+    const options = { jitter: "none" } as const;
+    assert.deepEqual(
+        shouldRetry({ status: 503, statusText: "" }, request),
+        {
+            retry: false,
+            reason: "method",
+        },
+    );
+    assert.deepEqual(
+        shouldRetry({ status: 429, statusText: "" }, request, options),
+        { retry: true, delay: 100 },
+    );
+    assert.deepEqual(
+        shouldRetry({ status: 503, statusText: "" }, request, {
+            ...options,
+            retryNonIdempotent: true,
+        }),
+        { retry: true, delay: 100 },
+    );
+});
+
+test("honors Retry-After up to the longest accepted delay", () => {
+    const response = (retryAfter: string) => ({
+        status: 503,
+        statusText: "Service Unavailable",
+        headers: new Headers({ "Retry-After": retryAfter }),
+    });
+    const request = { method: "GET", attempt: 1 };
+    assert.deepEqual(shouldRetry(response("2"), request, {}, NOW), {
+        retry: true,
+        delay: 2000,
+    });
+    assert.deepEqual(shouldRetry(response("60"), request, {}, NOW), {
+        retry: false,
+        reason: "retry-after",
+    });
+});
+
+test("retries transient statuses until a response is final", async () => {
+    const { clock, sleeps } = fakeClock();
+    const statuses = [503, 429, 200];
+    const response = await fetchWithRetry(
+        "https://example.com/",
+        undefined,
+        {
+            clock,
+            jitter: "none",
+            fetch: async () =>
+                new Response(null, {
+                    status: statuses.shift(),
+                    headers: { "Retry-After": "1" },
+                }),
+        },
+    );
+    assert.equal(response.status, 200);
+    assert.deepEqual(sleeps, [1000, 1000]);
+});
+
+test("gives up after the last retry", async () => {
+    const { clock, sleeps } = fakeClock();
+    let attempts = 0;
+    const response = await fetchWithRetry(
+        "https://example.com/",
+        undefined,
+        {
+            clock,
+            retries: 2,
+            jitter: "none",
+            fetch: async () => {
+                attempts++;
+
+                return new Response(null, { status: 502 });
+            },
+        },
+    );
+    assert.equal(response.status, 502);
+    assert.equal(attempts, 3);
+    assert.deepEqual(sleeps, [100, 200]);
+});
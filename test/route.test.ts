@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { NO_CONTENT, NOT_FOUND, OK } from "../http-status";
+import { defineRoute } from "../route";
+
+type Article = { readonly title: string };
+
+const route = defineRoute<
+    typeof OK | typeof NOT_FOUND | typeof NO_CONTENT,
+    { 200: Article }
+>({ responses: [OK, NOT_FOUND, NO_CONTENT] });
+
+test("sends replies as responses, with JSON bodies", async () => {
+    const response = await route.handle(() => ({
+        ...OK,
+        body: { title: "Status codes" },
+    }))();
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("Content-Type"), "application/json");
+
+    const reply = await route.read(response);
+    assert.equal(reply.status, 200);
+    assert.deepEqual(reply.body, { title: "Status codes" });
+});
+
+test("rejects undeclared statuses and bodies the status forbids", async () => {
+    await assert.rejects(
+        // @ts-expect-error: 500 is not declared by the route.
+        route.handle(() => ({ status: 500, statusText: "" }))(),
+        TypeError,
+    );
+    await assert.rejects(
+        // @ts-expect-error: a 204 must not have a body.
+        route.handle(() => ({ ...NO_CONTENT, body: "gone" }))(),
+        /must not have a body/,
+    );
+    assert.equal(
+        (await route.handle(() => ({ ...NO_CONTENT }))()).status,
+        204,
+    );
+});
+
+test("types handler bodies after the route", () => {
+    // @ts-expect-error: the body of a 200 must be an Article.
+    route.handle(() => ({ ...OK, body: { title: 42 } }));
+    // @ts-expect-error: the status text must match the code.
+    route.handle(() => ({ status: 200, statusText: "Okay" }));
+    route.handle(() => ({ ...NOT_FOUND, body: "No such article" }));
+});
+
+test("reads a malformed JSON body as a TypeError", async () => {
+    const response = new Response("{", {
+        status: 404,
+        headers: { "Content-Type": "application/problem+json" },
+    });
+    await assert.rejects(
+        route.read(response),
+        (error) =>
+            error instanceof TypeError &&
+            error.cause instanceof SyntaxError,
+    );
+    await assert.rejects(
+        route.read(new Response(null, { status: 500 })),
+        TypeError,
+    );
+});
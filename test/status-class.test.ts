@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+    CREATED,
+    NOT_FOUND,
+    OK,
+    SERVICE_UNAVAILABLE,
+} from "../http-status";
+import {
+    fromCode,
+    type KnownHTTPStatus,
+    type UnknownHTTPStatus,
+} from "../registry";
+import {
+    isClientError,
+    isError,
+    isInformational,
+    isRedirect,
+    isServerError,
+    isSuccess,
+    type ClientErrorCode,
+    type ClientErrorStatus,
+    type SuccessCode,
+    type SuccessStatus,
+} from "../status-class";
+
+/**
+ * Compiles only when both types are identical.
+ */
+const assertType = <Expected>() => ({
+    is: <Actual>(
+        ..._: [Expected] extends [Actual]
+            ? [Actual] extends [Expected]
+                ? []
+                : [never]
+            : [never]
+    ) => {},
+});
+
+test("checks the class of codes, constants and responses", () => {
+    assert.equal(isInformational(103), true);
+    assert.equal(isSuccess(CREATED), true);
+    assert.equal(isRedirect(new Response(null, { status: 304 })), true);
+    assert.equal(isClientError(499), true);
+    assert.equal(isClientError(SERVICE_UNAVAILABLE), false);
+    assert.equal(isServerError(SERVICE_UNAVAILABLE), true);
+    assert.equal(isError(NOT_FOUND), true);
+    assert.equal(isError(OK), false);
+});
+
+test("narrows codes to the code union of the class", () => {
+    const code = 404 as number;
+    if (isClientError(code)) {
+        assertType<ClientErrorCode>().is<typeof code>();
+    }
+    if (isSuccess(code)) {
+        assertType<SuccessCode>().is<typeof code>();
+        // @ts-expect-error 404 is not a success code
+        const notFound: typeof code = 404;
+        void notFound;
+    }
+});
+
+test("narrows constants to the constants of the class", () => {
+    const status = NOT_FOUND as KnownHTTPStatus;
+    if (isClientError(status)) {
+        assertType<ClientErrorStatus>().is<typeof status>();
+        assertType<ClientErrorCode>().is<typeof status.status>();
+    }
+    if (isSuccess(status)) {
+        assertType<SuccessStatus>().is<typeof status>();
+        // The switch is exhaustive, so `status` is `never` in the default branch.
+        switch (status.status) {
+            case 200:
+            case 201:
+            case 202:
+            case 203:
+            case 204:
+            case 205:
+            case 206:
+            case 207:
+            case 208:
+            case 226:
+                break;
+            default: {
+                const exhaustive: never = status;
+                void exhaustive;
+            }
+        }
+    }
+});
+
+test("narrows responses without dropping non-standard codes", () => {
+    const response = new Response(null, { status: 201 });
+    if (isSuccess(response)) {
+        assertType<SuccessCode>().is<typeof response.status>();
+    }
+
+    const received = fromCode(499 as number);
+    assert.equal(isClientError(received), true);
+    if (isClientError(received)) {
+        assertType<ClientErrorStatus | UnknownHTTPStatus>().is<
+            typeof received
+        >();
+    }
+});
@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { NO_CONTENT, SERVICE_UNAVAILABLE } from "../http-status";
+import { formatResponseHead, parseResponseHead } from "../status-line";
+
+test("parses a response head up to the empty line", () => {
+    const { statusLine, headers } = parseResponseHead(
+        "HTTP/1.1 503 Service Unavailable\r\nRetry-After: 120\r\n\r\nbody",
+    );
+    assert.equal(statusLine.resolved, SERVICE_UNAVAILABLE);
+    assert.deepEqual(headers, [["Retry-After", "120"]]);
+    assert.equal(
+        parseResponseHead(formatResponseHead(NO_CONTENT)).statusLine.status,
+        204,
+    );
+    assert.equal(
+        parseResponseHead("HTTP/1.1 200 OK\n\n").statusLine.status,
+        200,
+    );
+});
+
+test("rejects a head without the empty line", () => {
+    for (const raw of [
+        "HTTP/1.1 200 OK",
+        "HTTP/1.1 200 OK\r\n",
+        "HTTP/1.1 200 OK\r\nContent-Type: text/plain\r\n",
+    ]) {
+        assert.throws(() => parseResponseHead(raw), SyntaxError);
+    }
+});
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { NOT_FOUND } from "../http-status";
+import { STATUS_BY_CODE } from "../registry";
+import {
+    createStatusLookup,
+    isVendorStatus,
+    NewVendorPack,
+    NewVendorStatus,
+} from "../vendor";
+import * as Cloudflare from "../vendor/cloudflare";
+import * as IIS from "../vendor/iis";
+import * as Nginx from "../vendor/nginx";
+import * as Proxy from "../vendor/proxy";
+
+const MODULES = [
+    { pack: Cloudflare.CLOUDFLARE, module: Cloudflare },
+    { pack: IIS.IIS, module: IIS },
+    { pack: Nginx.NGINX, module: Nginx },
+    { pack: Proxy.PROXY, module: Proxy },
+];
+
+test("vendor packs do not shadow standard status codes", () => {
+    for (const { pack } of MODULES) {
+        for (const status of pack.statuses) {
+            assert.equal(
+                Object.prototype.hasOwnProperty.call(
+                    STATUS_BY_CODE,
+                    status.status,
+                ),
+                false,
+                `${pack.origin} redefines ${status.status}`,
+            );
+        }
+    }
+});
+
+test("vendor packs list every status of their module", () => {
+    for (const { pack, module } of MODULES) {
+        const exported = Object.values(module).filter(
+            (value) => "status" in value,
+        );
+        assert.deepEqual(
+            [...pack.statuses].sort((a, b) => a.status - b.status),
+            exported.sort((a, b) => a.status - b.status),
+        );
+        assert.equal(
+            new Set(pack.statuses.map(({ status }) => status)).size,
+            pack.statuses.length,
+        );
+        for (const status of pack.statuses) {
+            assert.equal(status.origin, pack.origin);
+            assert.equal(isVendorStatus(status), true);
+            assert.ok(Object.isFrozen(status));
+        }
+        assert.ok(Object.isFrozen(pack));
+        assert.ok(Object.isFrozen(pack.statuses));
+    }
+    assert.equal(isVendorStatus(NOT_FOUND), false);
+});
+
+test("resolves standard codes first, then packs in order", () => {
+    const SHADOW = NewVendorPack("proxy", [
+        NewVendorStatus("proxy", 404, "Not Here"),
+        NewVendorStatus("proxy", 499, "Shadowed"),
+    ]);
+    const lookup = createStatusLookup(Nginx.NGINX, SHADOW);
+
+    assert.equal(lookup(404), NOT_FOUND);
+    assert.equal(lookup(499), Nginx.CLIENT_CLOSED_REQUEST);
+    assert.equal(
+        createStatusLookup(SHADOW, Nginx.NGINX)(499).statusText,
+        "Shadowed",
+    );
+    assert.deepEqual(lookup(520), {
+        status: 520,
+        statusText: "",
+        unknown: true,
+    });
+    assert.equal(
+        createStatusLookup(Cloudflare.CLOUDFLARE)(520),
+        Cloudflare.WEB_SERVER_RETURNED_AN_UNKNOWN_ERROR,
+    );
+});
@@ -0,0 +1,186 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+    ALREADY_REPORTED,
+    FORBIDDEN,
+    LOCKED,
+    MOVED_PERMANENTLY,
+    NOT_FOUND,
+    OK,
+} from "../http-status";
+import {
+    DAV_NAMESPACE,
+    multiStatus,
+    multiStatusResponse,
+    parseMultiStatus,
+    type MultiStatus,
+} from "../webdav";
+
+const document = (href: string) =>
+    `<?xml version="1.0" encoding="utf-8"?>
+<D:multistatus xmlns:D="DAV:">
+    <D:response>
+        <D:href>${href}</D:href>
+        <D:status>HTTP/1.1 423 Locked</D:status>
+    </D:response>
+</D:multistatus>`;
+
+test("parses embedded status lines and character references", () => {
+    const { responses } = parseMultiStatus(
+        document("/a&#x20;b&amp;&#233;"),
+    );
+    const [entry] = responses;
+    assert.ok("status" in entry && entry.status === LOCKED);
+    assert.deepEqual(entry.hrefs, ["/a b&é"]);
+});
+
+test("rejects character references outside Unicode as a SyntaxError", () => {
+    for (const reference of ["&#x110000;", "&#99999999;"]) {
+        assert.throws(
+            () => parseMultiStatus(document(`/${reference}`)),
+            (error) =>
+                error instanceof SyntaxError &&
+                error.message.includes(reference),
+        );
+    }
+});
+
+const DOCUMENT: MultiStatus = {
+    responses: [
+        {
+            href: "/docs/a&b.txt",
+            propstats: [
+                {
+                    props: [
+                        {
+                            namespace: DAV_NAMESPACE,
+                            name: "getetag",
+                            value: '"v1"',
+                        },
+                        {
+                            namespace: DAV_NAMESPACE,
+                            name: "resourcetype",
+                            value: [
+                                {
+                                    namespace: DAV_NAMESPACE,
+                                    name: "collection",
+                                },
+                            ],
+                        },
+                        {
+                            namespace: "http://ns.example.com/boxschema/",
+                            name: "bigbox",
+                            value: [
+                                {
+                                    namespace:
+                                        "http://ns.example.com/boxschema/",
+                                    name: "BoxType",
+                                    value: "Box <type> A & B",
+                                },
+                            ],
+                        },
+                        { namespace: "", name: "plain", value: "text" },
+                    ],
+                    status: OK,
+                },
+                {
+                    props: [{ namespace: "urn:x", name: "color" }],
+                    status: NOT_FOUND,
+                    description: "The property does not exist.",
+                },
+            ],
+            description: "Partial results.",
+        },
+        {
+            hrefs: ["/docs/locked.txt", "/docs/locked2.txt"],
+            status: LOCKED,
+            error: [
+                { namespace: DAV_NAMESPACE, name: "lock-token-submitted" },
+            ],
+        },
+        {
+            hrefs: ["/docs/old"],
+            status: MOVED_PERMANENTLY,
+            location: "/docs/new",
+        },
+        // The same collection reached through a second binding (RFC 5842).
+        { hrefs: ["/docs/alias/"], status: ALREADY_REPORTED },
+    ],
+    description: "Some resources failed.",
+};
+
+test("round-trips a multistatus document", () => {
+    const xml = multiStatus(DOCUMENT);
+    assert.match(
+        xml,
+        /^<\?xml version="1.0" encoding="utf-8"\?>\n<D:multistatus xmlns:D="DAV:" xmlns:ns0="http:\/\/ns.example.com\/boxschema\/" xmlns:ns1="urn:x">/,
+    );
+    assert.ok(
+        xml.includes(
+            "<ns0:BoxType>Box &lt;type&gt; A &amp; B</ns0:BoxType>",
+        ),
+    );
+    assert.ok(
+        xml.includes("<D:status>HTTP/1.1 208 Already Reported</D:status>"),
+    );
+    assert.deepEqual(parseMultiStatus(xml), DOCUMENT);
+});
+
+test("serves a multistatus document as a 207 response", async () => {
+    const response = multiStatusResponse(DOCUMENT, {
+        headers: { "Cache-Control": "no-store" },
+    });
+    assert.equal(response.status, 207);
+    assert.equal(
+        response.headers.get("Content-Type"),
+        "application/xml; charset=utf-8",
+    );
+    assert.equal(response.headers.get("Cache-Control"), "no-store");
+    assert.deepEqual(parseMultiStatus(await response.text()), DOCUMENT);
+});
+
+test("resolves namespaces declared with any prefix", () => {
+    const { responses, description } = parseMultiStatus(`
+<multistatus xmlns="DAV:" xmlns:x="urn:x">
+    <response>
+        <href>/a</href>
+        <propstat>
+            <prop><x:color>red</x:color></prop>
+            <status>HTTP/1.1 403 Forbidden</status>
+        </propstat>
+    </response>
+    <responsedescription> Done. </responsedescription>
+</multistatus>`);
+    assert.deepEqual(responses, [
+        {
+            href: "/a",
+            propstats: [
+                {
+                    props: [
+                        { namespace: "urn:x", name: "color", value: "red" },
+                    ],
+                    status: FORBIDDEN,
+                },
+            ],
+        },
+    ]);
+    assert.equal(description, "Done.");
+});
+
+test("rejects document type declarations and malformed documents", () => {
+    for (const xml of [
+        `<?xml version="1.0"?>
+<!DOCTYPE foo [<!ENTITY xxe SYSTEM "file:///etc/passwd">]>
+<D:multistatus xmlns:D="DAV:"><D:response><D:href>&xxe;</D:href></D:response></D:multistatus>`,
+        `<!DOCTYPE multistatus><D:multistatus xmlns:D="DAV:"/>`,
+        `<D:multistatus xmlns:D="DAV:">`,
+        `<D:multistatus xmlns:D="DAV:"></D:response>`,
+        `<X:multistatus xmlns:D="DAV:"/>`,
+        `<D:prop xmlns:D="DAV:"/>`,
+        `<D:multistatus xmlns:D="DAV:"><D:response><D:status>HTTP/1.1 200 OK</D:status></D:response></D:multistatus>`,
+        `<D:multistatus xmlns:D="DAV:"><D:response><D:href>/</D:href></D:response></D:multistatus>`,
+        `<D:multistatus xmlns:D="DAV:"><D:response><D:href>/</D:href><D:status>200</D:status></D:response></D:multistatus>`,
+    ]) {
+        assert.throws(() => parseMultiStatus(xml), SyntaxError, xml);
+    }
+});
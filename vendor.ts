@@ -0,0 +1,144 @@
+import {
+    fromCode,
+    type KnownHTTPStatus,
+    type UnknownHTTPStatus,
+} from "./registry";
+
+/**
+ * Origins of the non-standard status codes shipped in `vendor/`.
+ *
+ * - `nginx`: codes logged or sent by [nginx](https://nginx.org/en/docs/http/ngx_http_special_response_module.html).
+ * - `cloudflare`: codes sent by the [Cloudflare](https://developers.cloudflare.com/support/troubleshooting/cloudflare-errors/troubleshooting-cloudflare-5xx-errors/) edge.
+ * - `iis`: codes sent by Microsoft Internet Information Services.
+ * - `proxy`: de facto codes sent by some HTTP proxies on network timeouts.
+ */
+export type VendorOrigin = "nginx" | "cloudflare" | "iis" | "proxy";
+
+/**
+ * Represents a non-standard HTTP status code. It has the same shape as the standard
+ * constants, plus its `origin` and a `standard: false` marker.
+ *
+ * @property status - The non-standard status code (e.g. `499`).
+ * @property statusText - The reason phrase used by its origin (e.g. `"Client Closed Request"`).
+ * @property origin - The server or service defining the status code.
+ * @property standard - Always `false`; absent on standard constants.
+ */
+export type VendorHTTPStatus<
+    Code extends number = number,
+    Text extends string = string,
+    Origin extends VendorOrigin = VendorOrigin,
+> = {
+    readonly status: Code;
+    readonly statusText: Text;
+    readonly origin: Origin;
+    readonly standard: false;
+};
+
+/**
+ * A separately importable set of non-standard statuses sharing the same origin.
+ */
+export type VendorPack<Origin extends VendorOrigin = VendorOrigin> = {
+    readonly origin: Origin;
+    readonly statuses: readonly VendorHTTPStatus<number, string, Origin>[];
+};
+
+/**
+ * Helper function to create an immutable non-standard HTTP status object with type inference,
+ * following `NewHTTPStatus` in `http-status.ts`.
+ *
+ * @param origin - The server or service defining the status code.
+ * @param status - The status code as a literal number type.
+ * @param statusText - The status text as a literal string type.
+ *
+ * @example
+ * ```
+ * const CLIENT_CLOSED_REQUEST = NewVendorStatus("nginx", 499, "Client Closed Request");
+ * // const CLIENT_CLOSED_REQUEST: {
+ * //     readonly status: 499;
+ * //     readonly statusText: "Client Closed Request";
+ * //     readonly origin: "nginx";
+ * //     readonly standard: false;
+ * // }
+ * ```
+ */
+export const NewVendorStatus = <
+    Origin extends VendorOrigin,
+    Code extends number,
+    Text extends string,
+>(
+    origin: Origin,
+    status: Code,
+    statusText: Text,
+): VendorHTTPStatus<Code, Text, Origin> =>
+    Object.freeze({ status, statusText, origin, standard: false });
+
+/**
+ * Helper function to create an immutable vendor pack.
+ *
+ * @param origin - The origin shared by every status of the pack.
+ * @param statuses - The statuses of the pack.
+ */
+export const NewVendorPack = <Origin extends VendorOrigin>(
+    origin: Origin,
+    statuses: readonly VendorHTTPStatus<number, string, Origin>[],
+): VendorPack<Origin> =>
+    Object.freeze({ origin, statuses: Object.freeze([...statuses]) });
+
+/**
+ * Checks whether a status is a non-standard status from a vendor pack.
+ *
+ * @param status - Any status object.
+ */
+export const isVendorStatus = (status: {
+    readonly status: number;
+    readonly statusText: string;
+}): status is VendorHTTPStatus =>
+    (status as Partial<VendorHTTPStatus>).standard === false &&
+    typeof (status as Partial<VendorHTTPStatus>).origin === "string";
+
+/**
+ * Looks up a raw status code across the standard constants and a set of vendor packs.
+ */
+export type StatusLookup = (
+    code: number,
+) => KnownHTTPStatus | VendorHTTPStatus | UnknownHTTPStatus;
+
+/**
+ * Creates a lookup resolving raw status codes against the standard constants first, then
+ * against the enabled vendor packs in the given order. The standard namespace is never
+ * modified.
+ *
+ * @param packs - The vendor packs to enable.
+ *
+ * @example
+ * ```
+ * import { NGINX } from "./vendor/nginx";
+ * import { CLOUDFLARE } from "./vendor/cloudflare";
+ *
+ * const lookup = createStatusLookup(NGINX, CLOUDFLARE);
+ * lookup(404); // NOT_FOUND
+ * lookup(499); // { status: 499, statusText: "Client Closed Request", origin: "nginx", standard: false }
+ * lookup(999); // { status: 999, statusText: "", unknown: true }
+ * ```
+ */
+export const createStatusLookup = (
+    ...packs: readonly VendorPack[]
+): StatusLookup => {
+    const vendor = new Map<number, VendorHTTPStatus>();
+    for (const pack of packs) {
+        for (const status of pack.statuses) {
+            if (!vendor.has(status.status)) {
+                vendor.set(status.status, status);
+            }
+        }
+    }
+
+    return (code) => {
+        const status = fromCode(code);
+        if (!("unknown" in status)) {
+            return status;
+        }
+
+        return vendor.get(code) ?? status;
+    };
+};
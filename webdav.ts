@@ -0,0 +1,505 @@
+import { MULTI_STATUS, type HTTPStatus } from "./http-status";
+import type { KnownHTTPStatus, UnknownHTTPStatus } from "./registry";
+import type { ResponseOptions } from "./responses";
+import { formatStatusLine, parseStatusLine } from "./status-line";
+
+/**
+ * The XML namespace of WebDAV elements.
+ */
+export const DAV_NAMESPACE = "DAV:";
+
+/**
+ * An XML element in a property value, such as `<D:getetag>` or `<D:resourcetype>`.
+ *
+ * @property namespace - The namespace URI, e.g. `"DAV:"`, or `""` for none.
+ * @property name - The local name.
+ * @property value - The text content, or the child elements.
+ */
+export type PropertyElement = {
+    readonly namespace: string;
+    readonly name: string;
+    readonly value?: string | readonly PropertyElement[];
+};
+
+/**
+ * A `<D:propstat>`: properties sharing the same status.
+ *
+ * @property props - The properties, with their values for a `PROPFIND`.
+ * @property status - The status of the properties, e.g. `OK` or `NOT_FOUND`.
+ * @property error - The precondition or postcondition codes of a failure.
+ * @property description - A human-readable `<D:responsedescription>`.
+ */
+export type PropStat<Status extends HTTPStatus = HTTPStatus> = {
+    readonly props: readonly PropertyElement[];
+    readonly status: Status;
+    readonly error?: readonly PropertyElement[];
+    readonly description?: string;
+};
+
+/**
+ * A `<D:response>` of a multistatus document, in one of its two forms
+ * ([RFC 4918 §14.24](https://www.rfc-editor.org/rfc/rfc4918#section-14.24)): one status for
+ * one or more resources, or the `propstat` elements of one resource.
+ *
+ * A resource already reported through another binding uses the `ALREADY_REPORTED` status
+ * ([RFC 5842 §7.1](https://www.rfc-editor.org/rfc/rfc5842#section-7.1)).
+ *
+ * @property location - The new location of the resource, for redirection statuses.
+ */
+export type MultiStatusResponse<Status extends HTTPStatus = HTTPStatus> =
+    | {
+          readonly hrefs: readonly string[];
+          readonly status: Status;
+          readonly error?: readonly PropertyElement[];
+          readonly description?: string;
+          readonly location?: string;
+      }
+    | {
+          readonly href: string;
+          readonly propstats: readonly PropStat<Status>[];
+          readonly error?: readonly PropertyElement[];
+          readonly description?: string;
+          readonly location?: string;
+      };
+
+/**
+ * A `<D:multistatus>` document
+ * ([RFC 4918 §13](https://www.rfc-editor.org/rfc/rfc4918#section-13)).
+ *
+ * @typeParam Status - The type of the statuses: any `HTTPStatus` when building, the resolved
+ * constants when parsing.
+ */
+export type MultiStatus<Status extends HTTPStatus = HTTPStatus> = {
+    readonly responses: readonly MultiStatusResponse<Status>[];
+    readonly description?: string;
+};
+
+/**
+ * A multistatus document returned by {@link parseMultiStatus}, whose status lines are
+ * resolved to the matching constants.
+ */
+export type ParsedMultiStatus = MultiStatus<
+    KnownHTTPStatus | UnknownHTTPStatus
+>;
+
+const escape = (text: string) =>
+    text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+
+/**
+ * Builds a `<D:multistatus>` XML document, declaring the namespaces of the properties on the
+ * root element.
+ *
+ * @param document - The responses and the overall description.
+ *
+ * @example
+ * ```
+ * multiStatus({
+ *     responses: [
+ *         {
+ *             href: "/docs/a.txt",
+ *             propstats: [
+ *                 { props: [{ namespace: "DAV:", name: "getetag", value: '"v1"' }], status: OK },
+ *                 { props: [{ namespace: "urn:x", name: "color" }], status: NOT_FOUND },
+ *             ],
+ *         },
+ *         { hrefs: ["/docs/locked.txt"], status: LOCKED },
+ *     ],
+ * });
+ * ```
+ */
+export const multiStatus = (document: MultiStatus): string => {
+    const prefixes = new Map<string, string>([[DAV_NAMESPACE, "D"]]);
+    const prefix = (namespace: string) => {
+        if (!prefixes.has(namespace)) {
+            prefixes.set(namespace, `ns${prefixes.size - 1}`);
+        }
+
+        return prefixes.get(namespace)!;
+    };
+
+    const element = (
+        namespace: string,
+        name: string,
+        content: string | undefined,
+    ) => {
+        const qualified =
+            namespace === "" ? name : `${prefix(namespace)}:${name}`;
+
+        return content === undefined || content === ""
+            ? `<${qualified}/>`
+            : `<${qualified}>${content}</${qualified}>`;
+    };
+
+    const dav = (name: string, content: string | undefined) =>
+        element(DAV_NAMESPACE, name, content);
+
+    const properties = (elements: readonly PropertyElement[]): string =>
+        elements
+            .map(({ namespace, name, value }) =>
+                element(
+                    namespace,
+                    name,
+                    typeof value === "string"
+                        ? escape(value)
+                        : value && properties(value),
+                ),
+            )
+            .join("");
+
+    const optional = (name: string, content: string | undefined) =>
+        content === undefined ? "" : dav(name, content);
+
+    const trailer = (entry: {
+        readonly error?: readonly PropertyElement[];
+        readonly description?: string;
+        readonly location?: string;
+    }) =>
+        optional("error", entry.error && properties(entry.error)) +
+        optional(
+            "responsedescription",
+            entry.description && escape(entry.description),
+        ) +
+        optional(
+            "location",
+            entry.location && dav("href", escape(entry.location)),
+        );
+
+    const propstat = (entry: PropStat) =>
+        dav(
+            "propstat",
+            dav("prop", properties(entry.props)) +
+                dav("status", formatStatusLine(entry.status)) +
+                trailer(entry),
+        );
+
+    const response = (entry: MultiStatusResponse) =>
+        dav(
+            "response",
+            "propstats" in entry
+                ? dav("href", escape(entry.href)) +
+                      entry.propstats.map(propstat).join("") +
+                      trailer(entry)
+                : entry.hrefs
+                      .map((href) => dav("href", escape(href)))
+                      .join("") +
+                      dav("status", formatStatusLine(entry.status)) +
+                      trailer(entry),
+        );
+
+    const responses = document.responses.map(response).join("");
+
+    const body = dav(
+        "multistatus",
+        responses +
+            optional(
+                "responsedescription",
+                document.description && escape(document.description),
+            ),
+    );
+    const namespaces = [...prefixes]
+        .map(([namespace, name]) => ` xmlns:${name}="${escape(namespace)}"`)
+        .join("");
+
+    return `<?xml version="1.0" encoding="utf-8"?>\n${body.replace(
+        /^<D:multistatus/,
+        `<D:multistatus${namespaces}`,
+    )}`;
+};
+
+/**
+ * Builds a [`207 Multi-Status`](https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/207)
+ * response with a `<D:multistatus>` body.
+ *
+ * @param document - The responses and the overall description.
+ * @param options - Additional response headers.
+ */
+export const multiStatusResponse = (
+    document: MultiStatus,
+    options: ResponseOptions = {},
+): Response => {
+    const headers = new Headers(options.headers);
+    headers.set("Content-Type", "application/xml; charset=utf-8");
+
+    return new Response(multiStatus(document), {
+        headers,
+        status: MULTI_STATUS.status,
+        statusText: MULTI_STATUS.statusText,
+    });
+};
+
+type XMLElement = {
+    readonly namespace: string;
+    readonly name: string;
+    readonly children: XMLElement[];
+    text: string;
+};
+
+const ENTITIES: { readonly [name: string]: string } = {
+    lt: "<",
+    gt: ">",
+    amp: "&",
+    quot: '"',
+    apos: "'",
+};
+
+const decode = (text: string) =>
+    text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+        if (name.startsWith("#")) {
+            try {
+                return String.fromCodePoint(
+                    name[1].toLowerCase() === "x"
+                        ? parseInt(name.slice(2), 16)
+                        : Number(name.slice(1)),
+                );
+            } catch {
+                throw new SyntaxError(
+                    `Invalid XML character reference: ${entity}`,
+                );
+            }
+        }
+
+        if (!Object.prototype.hasOwnProperty.call(ENTITIES, name)) {
+            throw new SyntaxError(`Unknown XML entity: ${entity}`);
+        }
+
+        return ENTITIES[name];
+    });
+
+const TAG =
+    /<(\/?)([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Parses an XML document into namespace-resolved elements. Only what WebDAV bodies need is
+ * supported: document type declarations, and thus external entities, are rejected.
+ */
+const parseXML = (xml: string): XMLElement => {
+    const stack: {
+        readonly element: XMLElement;
+        readonly qualified: string;
+        readonly scope: ReadonlyMap<string, string>;
+    }[] = [];
+    let root: XMLElement | undefined;
+    let index = 0;
+
+    const skip = (start: number, end: string) => {
+        const found = xml.indexOf(end, start);
+        if (found === -1) {
+            throw new SyntaxError(
+                `Unterminated XML construct at ${start}.`,
+            );
+        }
+
+        return found + end.length;
+    };
+
+    const append = (text: string) => {
+        if (stack.length > 0) {
+            stack[stack.length - 1].element.text += text;
+        } else if (text.trim() !== "") {
+            throw new SyntaxError("Text outside of the root XML element.");
+        }
+    };
+
+    while (index < xml.length) {
+        const lt = xml.indexOf("<", index);
+        append(decode(xml.slice(index, lt === -1 ? undefined : lt)));
+        if (lt === -1) {
+            break;
+        }
+
+        if (xml.startsWith("<?", lt)) {
+            index = skip(lt, "?>");
+        } else if (xml.startsWith("<!--", lt)) {
+            index = skip(lt, "-->");
+        } else if (xml.startsWith("<![CDATA[", lt)) {
+            index = skip(lt, "]]>");
+            append(xml.slice(lt + 9, index - 3));
+        } else if (xml.startsWith("<!", lt)) {
+            throw new SyntaxError(
+                "XML document type declarations are not supported.",
+            );
+        } else {
+            TAG.lastIndex = lt;
+            const match = TAG.exec(xml);
+            if (match === null) {
+                throw new SyntaxError(`Malformed XML tag at ${lt}.`);
+            }
+            index = TAG.lastIndex;
+
+            const [, closing, qualified, attributes, selfClosing] = match;
+            if (closing) {
+                if (stack.pop()?.qualified !== qualified) {
+                    throw new SyntaxError(
+                        `Mismatched XML closing tag: </${qualified}>`,
+                    );
+                }
+                continue;
+            }
+
+            const scope = new Map(stack[stack.length - 1]?.scope);
+            for (const [, name, double, single] of attributes.matchAll(
+                ATTRIBUTE,
+            )) {
+                if (name === "xmlns") {
+                    scope.set("", decode(double ?? single));
+                } else if (name.startsWith("xmlns:")) {
+                    scope.set(name.slice(6), decode(double ?? single));
+                }
+            }
+
+            const colon = qualified.indexOf(":");
+            const prefix = colon === -1 ? "" : qualified.slice(0, colon);
+            const namespace = scope.get(prefix);
+            if (namespace === undefined && prefix !== "") {
+                throw new SyntaxError(
+                    `Undeclared XML namespace prefix: ${prefix}`,
+                );
+            }
+
+            const element: XMLElement = {
+                namespace: namespace ?? "",
+                name: qualified.slice(colon + 1),
+                children: [],
+                text: "",
+            };
+            if (stack.length > 0) {
+                stack[stack.length - 1].element.children.push(element);
+            } else if (root === undefined) {
+                root = element;
+            } else {
+                throw new SyntaxError("Multiple root XML elements.");
+            }
+
+            if (!selfClosing) {
+                stack.push({ element, qualified, scope });
+            }
+        }
+    }
+
+    if (root === undefined || stack.length > 0) {
+        throw new SyntaxError("Incomplete XML document.");
+    }
+
+    return root;
+};
+
+const isDAV = (element: XMLElement, name: string) =>
+    element.namespace === DAV_NAMESPACE && element.name === name;
+
+const children = (element: XMLElement, name: string) =>
+    element.children.filter((child) => isDAV(child, name));
+
+const child = (element: XMLElement, name: string) =>
+    element.children.find((child) => isDAV(child, name));
+
+const toProperty = (element: XMLElement): PropertyElement => {
+    const value =
+        element.children.length > 0
+            ? Object.freeze(element.children.map(toProperty))
+            : element.text.trim() === ""
+              ? undefined
+              : element.text;
+
+    return Object.freeze({
+        namespace: element.namespace,
+        name: element.name,
+        ...(value !== undefined && { value }),
+    });
+};
+
+const toStatus = (element: XMLElement | undefined) => {
+    if (element === undefined) {
+        throw new SyntaxError("Missing <D:status> element.");
+    }
+
+    return parseStatusLine(element.text.trim()).resolved;
+};
+
+const toTrailer = (element: XMLElement) => {
+    const error = child(element, "error");
+    const description = child(element, "responsedescription");
+    const location = child(element, "location");
+    const href = location && child(location, "href");
+
+    return {
+        ...(error && {
+            error: Object.freeze(error.children.map(toProperty)),
+        }),
+        ...(description && { description: description.text.trim() }),
+        ...(href && { location: href.text.trim() }),
+    };
+};
+
+/**
+ * Parses a `<D:multistatus>` XML document without a DOM. Embedded status lines, such as
+ * `HTTP/1.1 423 Locked`, are resolved to the matching constants.
+ *
+ * @param xml - The XML document.
+ *
+ * @throws {SyntaxError} When the document is not well-formed, is not a multistatus, has a
+ * document type declaration, or has a malformed status line.
+ *
+ * @example
+ * ```
+ * const { responses } = parseMultiStatus(await response.text());
+ * for (const entry of responses) {
+ *     if ("status" in entry && entry.status === LOCKED) {
+ *         // entry.hrefs are locked
+ *     }
+ * }
+ * ```
+ */
+export const parseMultiStatus = (xml: string): ParsedMultiStatus => {
+    const root = parseXML(xml);
+    if (!isDAV(root, "multistatus")) {
+        throw new SyntaxError("The root element is not <D:multistatus>.");
+    }
+
+    const responses = children(root, "response").map((element) => {
+        const hrefs = children(element, "href").map((href) =>
+            href.text.trim(),
+        );
+        const propstats = children(element, "propstat");
+        if (hrefs.length === 0) {
+            throw new SyntaxError("Missing <D:href> element.");
+        }
+
+        if (propstats.length === 0) {
+            return Object.freeze({
+                hrefs: Object.freeze(hrefs),
+                status: toStatus(child(element, "status")),
+                ...toTrailer(element),
+            });
+        }
+
+        return Object.freeze({
+            href: hrefs[0],
+            propstats: Object.freeze(
+                propstats.map((propstat) =>
+                    Object.freeze({
+                        props: Object.freeze(
+                            (child(propstat, "prop")?.children ?? []).map(
+                                toProperty,
+                            ),
+                        ),
+                        status: toStatus(child(propstat, "status")),
+                        ...toTrailer(propstat),
+                    }),
+                ),
+            ),
+            ...toTrailer(element),
+        });
+    });
+
+    const description = child(root, "responsedescription");
+
+    return Object.freeze({
+        responses: Object.freeze(responses),
+        ...(description && { description: description.text.trim() }),
+    });
+};